@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react'
+import { motion } from "framer-motion"
+import { ChevronRight, FileImage, Globe, History, Loader2, Type } from "lucide-react"
+import { listAnalyses, type AnalysisSummary } from '@/lib/analysisHistory'
+import type { MenuSource } from '@/lib/menuSession'
+
+const SOURCE_ICONS: Record<MenuSource['kind'], typeof FileImage> = {
+  images: FileImage,
+  text: Type,
+  url: Globe,
+}
+
+const describeSource = (analysis: AnalysisSummary) => {
+  switch (analysis.source.kind) {
+    case 'images': return `${analysis.pageCount} ${analysis.pageCount === 1 ? 'page' : 'pages'}`
+    case 'url': return new URL(analysis.source.url).hostname
+    case 'text': return 'Pasted text'
+  }
+}
+
+export function AnalysisHistory({ onOpen }: { onOpen: (id: string) => void }) {
+  const [analyses, setAnalyses] = useState<AnalysisSummary[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    listAnalyses()
+      .then(setAnalyses)
+      .catch((loadError: Error) => setError(loadError.message || 'Could not load your history.'))
+  }, [])
+
+  if (error) {
+    return <p className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</p>
+  }
+
+  if (analyses === null) {
+    return <Loader2 className="w-8 h-8 mx-auto text-blue-500 animate-spin" />
+  }
+
+  if (analyses.length === 0) {
+    return (
+      <div className="text-center text-slate-500 py-8">
+        <History className="w-10 h-10 mx-auto mb-4 text-slate-300" />
+        Menus you analyze will show up here.
+      </div>
+    )
+  }
+
+  return (
+    <ul className="space-y-3">
+      {analyses.map((analysis, index) => {
+        const SourceIcon = SOURCE_ICONS[analysis.source.kind]
+        return (
+          <motion.li
+            key={analysis.id}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: index * 0.05 }}
+          >
+            <button
+              type="button"
+              onClick={() => onOpen(analysis.id)}
+              className="w-full flex items-center gap-4 p-4 text-left bg-white/60 border border-slate-200/60 rounded-xl hover:shadow-lg hover:border-blue-200 transition-all duration-300"
+            >
+              <div className="w-16 h-16 shrink-0 rounded-lg overflow-hidden bg-slate-100 flex items-center justify-center">
+                {analysis.thumbnailUrl
+                  ? <img src={analysis.thumbnailUrl} alt="" className="w-full h-full object-cover" />
+                  : <SourceIcon className="w-6 h-6 text-slate-400" />}
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="font-medium text-slate-900">
+                  {new Date(analysis.createdAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}
+                </p>
+                <p className="text-sm text-slate-500 truncate">
+                  {analysis.itemCount} {analysis.itemCount === 1 ? 'dish' : 'dishes'} · {describeSource(analysis)}
+                </p>
+              </div>
+              <ChevronRight className="w-5 h-5 text-slate-400 shrink-0" />
+            </button>
+          </motion.li>
+        )
+      })}
+    </ul>
+  )
+}
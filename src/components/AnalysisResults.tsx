@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react'
+import { motion } from "framer-motion"
+import { Brain, ExternalLink, FileImage, Loader2, Upload } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { MenuItemCard } from "@/components/MenuItemCard"
+import { MenuPagesCarousel } from "@/components/MenuPagesCarousel"
+import { ToleranceProfileEditor } from "@/components/ToleranceProfileEditor"
+import { ResultFilterBar } from "@/components/ResultFilterBar"
+import { MenuSectionAccordion } from "@/components/MenuSectionAccordion"
+import { ChefCardDialog } from "@/components/ChefCardDialog"
+import { getMenuItemElementId } from '@/lib/menuItemDisplay'
+import { getChefCardMenuText } from '@/lib/chefCard'
+import type { MenuPage, MenuSource, SessionMenuItem } from '@/lib/menuSession'
+import {
+  filterMenuItems,
+  getSectionKey,
+  groupBySection,
+  hasMenuSections,
+  sortMenuItems,
+  type ResultFilters,
+} from '@/lib/resultFilters'
+import type { Personalized } from '@/lib/toleranceProfile'
+import { useAccount } from '@/hooks/use-account'
+import { useResultFilters } from '@/hooks/use-result-filters'
+
+interface AnalysisResultsProps {
+  pages: MenuPage[]
+  source: MenuSource
+  items: SessionMenuItem[]
+  // Overall progress while dishes are still arriving, null once complete
+  progress: number | null
+  onAnalyzeAnother: () => void
+}
+
+// The original menu next to its rated dishes, for a live or a saved analysis
+export function AnalysisResults({ pages, source, items, progress, onAnalyzeAnother }: AnalysisResultsProps) {
+  const { toleranceProfile, setToleranceProfile } = useAccount()
+  const { filters, setFilters } = useResultFilters()
+  const [activeItemIndex, setActiveItemIndex] = useState<number | null>(null)
+  // Re-rated and re-ordered on the client whenever the profile changes
+  const rankedItems = useMemo(
+    () => sortMenuItems(items, toleranceProfile, filters.sort),
+    [items, toleranceProfile, filters.sort],
+  )
+  // Cards, highlights and the overlay all index into the filtered list
+  const visibleItems = useMemo(
+    () => filterMenuItems(rankedItems, filters, toleranceProfile.diets),
+    [rankedItems, filters, toleranceProfile.diets],
+  )
+  // Dishes are shown under their menu headings when the menu has any;
+  // sorting then applies within each section. The value ranking spans the
+  // whole menu, so it stays one list.
+  const sectionGroups = useMemo(
+    () => (hasMenuSections(items) && filters.sort !== 'value' ? groupBySection(visibleItems, items) : null),
+    [items, visibleItems, filters.sort],
+  )
+  const [collapsedSections, setCollapsedSections] = useState<string[]>([])
+  const [chefCardItem, setChefCardItem] = useState<Personalized<SessionMenuItem> | null>(null)
+
+  const handleFiltersChange = (update: Partial<ResultFilters>) => {
+    setActiveItemIndex(null)
+    setFilters(update)
+  }
+
+  const handleSelectItem = (index: number) => {
+    setActiveItemIndex(index)
+    const sectionKey = getSectionKey(visibleItems[index]?.section ?? null)
+    if (collapsedSections.includes(sectionKey)) {
+      // Open its section first; the card only exists once that has rendered
+      setCollapsedSections(collapsedSections.filter((key) => key !== sectionKey))
+      requestAnimationFrame(() => scrollToItem(index))
+    } else {
+      scrollToItem(index)
+    }
+  }
+
+  const scrollToItem = (index: number) => {
+    document.getElementById(getMenuItemElementId(index))?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
+  const renderItemCard = (item: Personalized<SessionMenuItem>, index: number) => (
+    <MenuItemCard
+      key={index}
+      item={item}
+      index={index}
+      diets={toleranceProfile.diets}
+      highlighted={activeItemIndex === index}
+      onHoverChange={(hovered) => setActiveItemIndex(hovered ? index : null)}
+      onOpenChefCard={() => setChefCardItem(item)}
+    />
+  )
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.6, ease: "easeOut" }}
+      className="grid lg:grid-cols-2 gap-12"
+    >
+      {/* Original Menu */}
+      <Card className="bg-white/80 backdrop-blur-xl border-0 shadow-xl shadow-slate-200/50 overflow-hidden lg:sticky lg:top-8 self-start">
+        <CardHeader className="bg-gradient-to-r from-slate-50 to-gray-50 border-b border-slate-200/60">
+          <CardTitle className="flex items-center gap-3 text-xl font-serif">
+            <div className="w-10 h-10 bg-gradient-to-r from-slate-500 to-gray-600 rounded-lg flex items-center justify-center">
+              <FileImage className="w-5 h-5 text-white" />
+            </div>
+            Original Menu
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="p-8">
+          {source.kind === 'images' && pages.length > 0 && (
+            <MenuPagesCarousel
+              pages={pages}
+              items={visibleItems}
+              activeIndex={activeItemIndex}
+              onActiveIndexChange={setActiveItemIndex}
+              onSelect={handleSelectItem}
+            />
+          )}
+          {source.kind === 'text' && (
+            <pre className="whitespace-pre-wrap font-sans text-sm text-slate-700 leading-relaxed max-h-[70vh] overflow-y-auto">
+              {source.text}
+            </pre>
+          )}
+          {source.kind === 'url' && (
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 text-blue-600 hover:text-blue-700 break-all"
+            >
+              <ExternalLink className="w-4 h-4 shrink-0" />
+              {source.url}
+            </a>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* FODMAP Analysis */}
+      <Card className="bg-white/80 backdrop-blur-xl border-0 shadow-xl shadow-slate-200/50 overflow-hidden">
+        <CardHeader className="bg-gradient-to-r from-blue-50 to-indigo-50 border-b border-blue-200/60">
+          <div className="flex items-center justify-between gap-3">
+            <CardTitle className="flex items-center gap-3 text-xl font-serif">
+              <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-lg flex items-center justify-center">
+                <Brain className="w-5 h-5 text-white" />
+              </div>
+              FODMAP Analysis
+            </CardTitle>
+            <ToleranceProfileEditor profile={toleranceProfile} onChange={setToleranceProfile} />
+          </div>
+        </CardHeader>
+        <CardContent className="p-8 space-y-6">
+          {progress !== null && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-slate-600">
+                <span className="flex items-center gap-2">
+                  <Loader2 className="w-4 h-4 animate-spin text-blue-500" />
+                  {items.length} {items.length === 1 ? 'dish' : 'dishes'} rated so far
+                </span>
+                <span>{progress}%</span>
+              </div>
+              <Progress value={progress} className="h-2 bg-slate-200" />
+            </div>
+          )}
+          {rankedItems.length > 0 && (
+            <ResultFilterBar
+              items={rankedItems}
+              visibleItems={visibleItems}
+              diets={toleranceProfile.diets}
+              filters={filters}
+              onFiltersChange={handleFiltersChange}
+              onJumpTo={handleSelectItem}
+            />
+          )}
+          {rankedItems.length > 0 && visibleItems.length === 0 && (
+            <p className="py-8 text-center text-slate-500">No dishes match these filters.</p>
+          )}
+          {sectionGroups ? (
+            <MenuSectionAccordion
+              groups={sectionGroups}
+              collapsedSections={collapsedSections}
+              onCollapsedSectionsChange={setCollapsedSections}
+              renderItem={renderItemCard}
+            />
+          ) : (
+            visibleItems.map(renderItemCard)
+          )}
+          
+          {progress === null && (
+            <div className="pt-6 border-t border-slate-200/60">
+              <Button 
+                onClick={onAnalyzeAnother} 
+                variant="secondary" 
+                className="w-full py-3 text-lg bg-gradient-to-r from-slate-100 to-gray-100 hover:from-slate-200 hover:to-gray-200 border border-slate-300/60 rounded-xl transition-all duration-300"
+              >
+                <Upload className="w-5 h-5 mr-2" />
+                Analyze Another Menu
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {chefCardItem && (
+        <ChefCardDialog
+          item={chefCardItem}
+          profile={toleranceProfile}
+          menuText={getChefCardMenuText(chefCardItem, items, source)}
+          onClose={() => setChefCardItem(null)}
+        />
+      )}
+    </motion.div>
+  )
+}
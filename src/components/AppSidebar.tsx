@@ -0,0 +1,79 @@
+import { NavLink, useLocation } from 'react-router-dom'
+import { History, LogOut, SlidersHorizontal, Upload, UserRound, UtensilsCrossed } from "lucide-react"
+import toast from 'react-hot-toast'
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar"
+import { supabase } from '@/lib/supabaseClient'
+
+const NAV_ITEMS = [
+  { to: '/', label: 'New analysis', icon: Upload },
+  { to: '/history', label: 'History', icon: History },
+  { to: '/profile', label: 'My tolerances', icon: SlidersHorizontal },
+]
+
+export function AppSidebar({ email }: { email: string }) {
+  const { pathname } = useLocation()
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut()
+    if (error) toast.error(error.message)
+  }
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <div className="flex items-center gap-2 px-2 py-1.5 font-serif text-lg font-semibold text-slate-900">
+          <UtensilsCrossed className="w-5 h-5 text-blue-500" />
+          FODMAP Menu
+        </div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {NAV_ITEMS.map(({ to, label, icon: Icon }) => (
+                <SidebarMenuItem key={to}>
+                  {/* A result page belongs to the history section */}
+                  <SidebarMenuButton
+                    asChild
+                    isActive={to === '/' ? pathname === '/' : pathname.startsWith(to) || (to === '/history' && pathname.startsWith('/analysis'))}
+                  >
+                    <NavLink to={to}>
+                      <Icon />
+                      <span>{label}</span>
+                    </NavLink>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter>
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <div className="flex items-center gap-2 px-2 py-1.5 text-sm text-slate-600">
+              <UserRound className="w-4 h-4 shrink-0 text-blue-500" />
+              <span className="truncate">{email}</span>
+            </div>
+          </SidebarMenuItem>
+          <SidebarMenuItem>
+            <SidebarMenuButton onClick={signOut}>
+              <LogOut />
+              <span>Sign out</span>
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+    </Sidebar>
+  )
+}
@@ -0,0 +1,199 @@
+import { useRef, useState } from 'react'
+import { AlertTriangle, Check, Loader2, RotateCcw, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { useCamera } from '@/hooks/use-camera'
+import { assessPhotoQuality, PHOTO_ISSUE_MESSAGES, type ImageArea, type PhotoQuality } from '@/lib/photoQuality'
+
+interface Shot {
+  file: File
+  previewUrl: string
+  quality: PhotoQuality
+}
+
+interface CameraCaptureProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Called with every accepted page, in the order they were taken
+  onCapture: (files: File[]) => void
+}
+
+const JPEG_QUALITY = 0.92
+
+// The part of the video frame under the framing guide. The video is shown
+// with object-cover, so the frame is scaled to fill the element and cropped
+// evenly on the sides that overflow.
+function getGuideArea(video: HTMLVideoElement, guide: HTMLElement | null): ImageArea {
+  const frame = { x: 0, y: 0, width: video.videoWidth, height: video.videoHeight }
+  const videoRect = video.getBoundingClientRect()
+  const guideRect = guide?.getBoundingClientRect()
+  if (!guideRect || videoRect.width === 0 || videoRect.height === 0) return frame
+
+  const scale = Math.max(videoRect.width / video.videoWidth, videoRect.height / video.videoHeight)
+  const offsetX = (videoRect.width - video.videoWidth * scale) / 2
+  const offsetY = (videoRect.height - video.videoHeight * scale) / 2
+  const x = Math.max(0, (guideRect.left - videoRect.left - offsetX) / scale)
+  const y = Math.max(0, (guideRect.top - videoRect.top - offsetY) / scale)
+  const width = Math.min(video.videoWidth - x, guideRect.width / scale)
+  const height = Math.min(video.videoHeight - y, guideRect.height / scale)
+  return width >= 3 && height >= 3 ? { x, y, width, height } : frame
+}
+
+// Full-screen camera for photographing a menu page by page. Each shot is
+// checked for blur, glare and darkness before it is kept.
+export function CameraCapture({ open, onOpenChange, onCapture }: CameraCaptureProps) {
+  const { videoRef, status, error } = useCamera(open)
+  const guideRef = useRef<HTMLDivElement>(null)
+  const [shots, setShots] = useState<Shot[]>([])
+  // A shot that failed the quality check, waiting for "retake" or "keep"
+  const [review, setReview] = useState<Shot | null>(null)
+  const [capturing, setCapturing] = useState(false)
+
+  const close = () => {
+    const previews = review ? [...shots, review] : shots
+    previews.forEach((shot) => URL.revokeObjectURL(shot.previewUrl))
+    setShots([])
+    setReview(null)
+    onOpenChange(false)
+  }
+
+  const takeShot = async () => {
+    const video = videoRef.current
+    if (!video || !video.videoWidth) return
+    setCapturing(true)
+
+    const canvas = document.createElement('canvas')
+    canvas.width = video.videoWidth
+    canvas.height = video.videoHeight
+    canvas.getContext('2d')?.drawImage(video, 0, 0)
+    const quality = assessPhotoQuality(canvas, getGuideArea(video, guideRef.current))
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY))
+    setCapturing(false)
+    if (!blob) return
+
+    const shot = {
+      file: new File([blob], `menu-photo-${Date.now()}.jpg`, { type: 'image/jpeg' }),
+      previewUrl: URL.createObjectURL(blob),
+      quality,
+    }
+    if (shot.quality.issues.length > 0) setReview(shot)
+    else setShots((current) => [...current, shot])
+  }
+
+  const retake = () => {
+    if (review) URL.revokeObjectURL(review.previewUrl)
+    setReview(null)
+  }
+
+  const keepReviewed = () => {
+    if (review) setShots((current) => [...current, review])
+    setReview(null)
+  }
+
+  const removeShot = (index: number) => {
+    URL.revokeObjectURL(shots[index].previewUrl)
+    setShots((current) => current.filter((_, i) => i !== index))
+  }
+
+  const finish = () => {
+    onCapture(shots.map((shot) => shot.file))
+    close()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => (nextOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-none w-screen h-[100dvh] p-0 gap-0 border-0 bg-black text-white flex flex-col sm:rounded-none [&>button]:text-white [&>button]:opacity-90">
+        <DialogTitle className="sr-only">Photograph the menu</DialogTitle>
+        <DialogDescription className="sr-only">
+          Fit one menu page inside the frame and take a photo of each page.
+        </DialogDescription>
+
+        <div className="relative flex-1 overflow-hidden">
+          <video ref={videoRef} playsInline muted className="absolute inset-0 w-full h-full object-cover" />
+
+          {/* Framing guide: a portrait page outline with the rest dimmed */}
+          {status === 'ready' && !review && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center pointer-events-none">
+              <div ref={guideRef} className="h-[72%] aspect-[3/4] max-w-[88%] rounded-xl border-2 border-white/80 shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]" />
+              <p className="mt-4 text-sm text-white/90">
+                Fit page {shots.length + 1} inside the frame
+              </p>
+            </div>
+          )}
+
+          {status === 'starting' && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-white/80" />
+            </div>
+          )}
+
+          {status === 'error' && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-4 p-8 text-center">
+              <AlertTriangle className="w-8 h-8 text-amber-400" />
+              <p className="max-w-sm text-white/90">{error}</p>
+              <Button variant="secondary" onClick={close}>Close</Button>
+            </div>
+          )}
+
+          {review && (
+            <div className="absolute inset-0 flex flex-col bg-black">
+              <img src={review.previewUrl} alt="Last shot" className="flex-1 min-h-0 object-contain" />
+              <div className="p-4 space-y-3 bg-black/80">
+                {review.quality.issues.map((issue) => (
+                  <p key={issue} className="flex items-center gap-2 text-sm text-amber-300">
+                    <AlertTriangle className="w-4 h-4 shrink-0" />
+                    {PHOTO_ISSUE_MESSAGES[issue]}
+                  </p>
+                ))}
+                <div className="flex gap-3">
+                  <Button className="flex-1" onClick={retake}>
+                    <RotateCcw className="w-4 h-4 mr-2" />
+                    Retake
+                  </Button>
+                  <Button variant="secondary" className="flex-1" onClick={keepReviewed}>
+                    Keep anyway
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center gap-4 p-4 bg-black">
+          <div className="flex flex-1 gap-2 overflow-x-auto">
+            {shots.map((shot, index) => (
+              <div key={shot.previewUrl} className="relative shrink-0">
+                <img src={shot.previewUrl} alt={`Page ${index + 1}`} className="w-12 h-16 rounded object-cover" />
+                <button
+                  type="button"
+                  onClick={() => removeShot(index)}
+                  className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-white text-slate-900 flex items-center justify-center"
+                  aria-label={`Remove page ${index + 1}`}
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={takeShot}
+            disabled={status !== 'ready' || capturing || review !== null}
+            className="w-16 h-16 shrink-0 rounded-full border-4 border-white bg-white/20 active:bg-white/60 disabled:opacity-40 transition-colors"
+            aria-label="Take photo"
+          />
+          <div className="flex flex-1 justify-end">
+            <Button
+              onClick={finish}
+              disabled={shots.length === 0}
+              className="bg-gradient-to-r from-blue-500 to-indigo-600 border-0"
+            >
+              <Check className="w-4 h-4 mr-2" />
+              {shots.length === 0 ? 'Analyze' : `Analyze ${shots.length} ${shots.length === 1 ? 'page' : 'pages'}`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,169 @@
+import { useRef, useState } from 'react'
+import toast from 'react-hot-toast'
+import { ChefHat, Languages, Loader2, Maximize2, Printer, Share2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { ChefCard, FodmapItem } from '@shared/fodmap-schema'
+import { buildChefCard, CHEF_CARD_LANGUAGES, translateChefCard } from '@/lib/chefCard'
+import { renderChefCardImage } from '@/lib/chefCardImage'
+import type { Personalized, ToleranceProfile } from '@/lib/toleranceProfile'
+
+const MENU_LANGUAGE = 'menu'
+
+interface ChefCardDialogProps {
+  item: Personalized<FodmapItem>
+  profile: ToleranceProfile
+  // Some of the menu as printed, so the translation can tell its language
+  menuText: string
+  onClose: () => void
+}
+
+// A card to hand to the waiter, made from the diner's profile and one dish:
+// in English at once, in the restaurant's language on request.
+export function ChefCardDialog({ item, profile, menuText, onClose }: ChefCardDialogProps) {
+  const cardRef = useRef<HTMLDivElement>(null)
+  const [englishCard] = useState(() => buildChefCard(item, profile))
+  const [card, setCard] = useState<ChefCard>(englishCard)
+  const [language, setLanguage] = useState(MENU_LANGUAGE)
+  const [translating, setTranslating] = useState(false)
+  const [sharing, setSharing] = useState(false)
+  const isTranslated = card.language !== 'English'
+
+  const handleTranslate = async () => {
+    setTranslating(true)
+    try {
+      setCard(await translateChefCard({
+        card: englishCard,
+        language: language === MENU_LANGUAGE ? undefined : language,
+        menuText,
+      }))
+    } catch (error) {
+      toast.error((error as Error).message)
+    } finally {
+      setTranslating(false)
+    }
+  }
+
+  const handleShare = async () => {
+    setSharing(true)
+    try {
+      const file = new File([await renderChefCardImage(card)], 'chef-card.png', { type: 'image/png' })
+      if (navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: card.dish })
+      } else {
+        const url = URL.createObjectURL(file)
+        const link = document.createElement('a')
+        link.href = url
+        link.download = file.name
+        link.click()
+        // Give the browser a moment to start the download before releasing it
+        window.setTimeout(() => URL.revokeObjectURL(url), 1000)
+      }
+    } catch (error) {
+      // Closing the share sheet is not a failure
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        toast.error('The card image could not be created')
+      }
+    } finally {
+      setSharing(false)
+    }
+  }
+
+  const english = (index: number, lines: string[]) =>
+    isTranslated && <p className="mt-1 text-sm text-slate-400 print:hidden">{lines[index]}</p>
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-none w-screen h-[100dvh] sm:h-auto sm:max-h-[90vh] sm:max-w-2xl sm:rounded-lg p-0 gap-0 flex flex-col overflow-hidden print:static print:translate-x-0 print:translate-y-0 print:h-auto print:max-h-none print:w-full print:border-0 print:shadow-none print:[&>button]:hidden">
+        <DialogTitle className="sr-only">Chef card for {item.name}</DialogTitle>
+        <DialogDescription className="sr-only">
+          Show this card to the staff, print it or share it as an image.
+        </DialogDescription>
+
+        <div
+          ref={cardRef}
+          className="chef-card-print flex-1 overflow-y-auto print:overflow-visible bg-white p-8 sm:p-10 space-y-6 text-slate-900 [&:fullscreen]:p-12 [&:fullscreen]:text-2xl"
+        >
+          <div className="flex items-center gap-3 text-blue-600">
+            <ChefHat className="w-6 h-6" />
+            <span className="text-sm font-semibold uppercase tracking-wide">
+              {isTranslated ? card.language : 'Chef card'}
+            </span>
+          </div>
+          <p className="text-lg font-medium">{card.greeting}</p>
+          <h2 className="font-serif text-3xl font-bold text-blue-700">{card.dish}</h2>
+          <ul className="space-y-4 text-lg">
+            {card.requests.map((request, index) => (
+              <li key={index} className="flex gap-3">
+                <span className="text-blue-500">•</span>
+                <div>
+                  {request}
+                  {english(index, englishCard.requests)}
+                </div>
+              </li>
+            ))}
+          </ul>
+          {card.alternatives.length > 0 && (
+            <ul className="space-y-3 text-lg text-emerald-700">
+              {card.alternatives.map((alternative, index) => (
+                <li key={index} className="flex gap-3">
+                  <span>→</span>
+                  <div>
+                    {alternative}
+                    {english(index, englishCard.alternatives)}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xl font-semibold">{card.thanks}</p>
+        </div>
+
+        <div className="border-t border-slate-200 bg-slate-50 p-4 space-y-3 print:hidden">
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger className="w-48 h-9 bg-white" aria-label="Card language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={MENU_LANGUAGE}>The menu's language</SelectItem>
+                {CHEF_CARD_LANGUAGES.map((name) => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button size="sm" onClick={handleTranslate} disabled={translating} className="gap-2">
+              {translating ? <Loader2 className="w-4 h-4 animate-spin" /> : <Languages className="w-4 h-4" />}
+              Translate
+            </Button>
+            {isTranslated && (
+              <Button size="sm" variant="ghost" onClick={() => setCard(englishCard)}>Show English</Button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" className="gap-2 bg-white" onClick={() => window.print()}>
+              <Printer className="w-4 h-4" />
+              Print
+            </Button>
+            <Button size="sm" variant="outline" className="gap-2 bg-white" onClick={handleShare} disabled={sharing}>
+              {sharing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Share2 className="w-4 h-4" />}
+              Share image
+            </Button>
+            {document.fullscreenEnabled && (
+              <Button
+                size="sm"
+                variant="outline"
+                className="gap-2 bg-white"
+                onClick={() => cardRef.current?.requestFullscreen().catch(() => toast.error('Full screen is not available'))}
+              >
+                <Maximize2 className="w-4 h-4" />
+                Full screen
+              </Button>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,25 @@
+import { motion } from "framer-motion"
+import { Sparkles } from "lucide-react"
+
+export function HeroHeader() {
+  return (
+    <motion.div 
+      initial={{ opacity: 0, y: -30 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.8, ease: "easeOut" }}
+      className="text-center mb-20"
+    >
+      <div className="inline-flex items-center gap-2 px-4 py-2 bg-white/70 backdrop-blur-sm border border-slate-200/60 rounded-full text-sm text-slate-600 mb-6">
+        <Sparkles className="w-4 h-4 text-blue-500" />
+        Powered by AI Analysis
+      </div>
+      <h1 className="text-6xl md:text-7xl font-serif font-semibold text-slate-900 mb-6 tracking-tight">
+        FODMAP Menu
+        <span className="bg-gradient-to-r from-blue-500 to-indigo-600 bg-clip-text text-transparent"> Converter</span>
+      </h1>
+      <p className="text-xl text-slate-600 max-w-2xl mx-auto leading-relaxed">
+        Transform any restaurant menu into a personalized FODMAP guide with intelligent AI analysis
+      </p>
+    </motion.div>
+  )
+}
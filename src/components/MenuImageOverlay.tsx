@@ -0,0 +1,48 @@
+import type { SessionMenuItem } from '@/lib/menuSession'
+import { getFodmapHighlight } from '@/lib/menuItemDisplay'
+
+interface MenuImageOverlayProps {
+  imageUrl: string
+  page: number
+  items: SessionMenuItem[]
+  activeIndex: number | null
+  onActiveIndexChange: (index: number | null) => void
+  onSelect: (index: number) => void
+}
+
+// One menu page with each dish located on it outlined in its FODMAP colour.
+export function MenuImageOverlay({ imageUrl, page, items, activeIndex, onActiveIndexChange, onSelect }: MenuImageOverlayProps) {
+  return (
+    <div className="relative">
+      <img
+        src={imageUrl}
+        alt={`Uploaded menu, page ${page + 1}`}
+        className="block w-full rounded-xl shadow-lg border border-slate-200/60"
+      />
+      {items.flatMap((item, index) =>
+        item.occurrences
+          .filter((occurrence) => occurrence.page === page && occurrence.region)
+          .map(({ region }, i) => region && (
+            <button
+              key={`${index}-${i}`}
+              type="button"
+              title={item.name}
+              aria-label={`${item.name}: ${item.fodmapLevel} FODMAP`}
+              className={`absolute rounded-md border-2 transition-all duration-200 cursor-pointer ${getFodmapHighlight(item.fodmapLevel, activeIndex === index)}`}
+              style={{
+                left: `${region.x * 100}%`,
+                top: `${region.y * 100}%`,
+                width: `${region.width * 100}%`,
+                height: `${region.height * 100}%`,
+              }}
+              onMouseEnter={() => onActiveIndexChange(index)}
+              onMouseLeave={() => onActiveIndexChange(null)}
+              onFocus={() => onActiveIndexChange(index)}
+              onBlur={() => onActiveIndexChange(null)}
+              onClick={() => onSelect(index)}
+            />
+          ))
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+import { motion } from "framer-motion"
+import { ChefHat, HelpCircle } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  ALLERGEN_LABELS,
+  CONFIDENCE_REASON_LABELS,
+  FODMAP_SUBGROUP_LABELS,
+  needsVerification,
+  type FodmapItem,
+} from '@shared/fodmap-schema'
+import type { Personalized } from '@/lib/toleranceProfile'
+import { getDishVerdict, VERDICT_LABELS, type Diet } from '@/lib/diets'
+import {
+  formatPrice,
+  getFodmapColor,
+  getFodmapIcon,
+  getMenuItemElementId,
+  getOriginLabel,
+  getVerdictColor,
+  getVerdictIcon,
+} from '@/lib/menuItemDisplay'
+
+interface MenuItemCardProps {
+  item: Personalized<FodmapItem>
+  index: number
+  // The user's other diets, combined with the FODMAP rating into one verdict
+  diets?: Diet[]
+  highlighted?: boolean
+  onHoverChange?: (hovered: boolean) => void
+  onOpenChefCard?: () => void
+}
+
+export function MenuItemCard({
+  item,
+  index,
+  diets = [],
+  highlighted = false,
+  onHoverChange,
+  onOpenChefCard,
+}: MenuItemCardProps) {
+  const lowConfidence = needsVerification(item)
+  const { verdict, conflicts } = getDishVerdict(item, diets)
+
+  return (
+    <motion.div
+      id={getMenuItemElementId(index)}
+      initial={{ opacity: 0, x: 20 }}
+      animate={{ opacity: 1, x: 0 }}
+      // No stagger: streamed dishes already arrive one by one, and a delay by
+      // position would hold back the ones further down the menu
+      transition={{ duration: 0.5 }}
+      onMouseEnter={() => onHoverChange?.(true)}
+      onMouseLeave={() => onHoverChange?.(false)}
+      className={`backdrop-blur-sm border rounded-xl p-6 hover:shadow-lg transition-all duration-300 scroll-mt-8 ${
+        lowConfidence ? 'bg-amber-50/40 border-dashed border-amber-300' : 'bg-white/60 border-slate-200/60'
+      } ${highlighted ? 'ring-2 ring-blue-400 shadow-lg' : ''}`}
+    >
+      <div className="flex items-start justify-between mb-4">
+        <div>
+          <h3 className="font-serif font-semibold text-xl text-slate-900">{item.name}</h3>
+          {(item.price !== null || item.portion) && (
+            <p className="text-sm text-slate-600 mt-1">
+              {[item.price !== null && formatPrice(item.price, item.currency), item.portion].filter(Boolean).join(' · ')}
+            </p>
+          )}
+          <p className={`text-xs mt-1 ${lowConfidence ? 'text-amber-700 font-medium' : 'text-slate-400'}`}>
+            {Math.round(item.confidence * 100)}% confidence
+          </p>
+        </div>
+        <Badge className={`${getFodmapColor(item.fodmapLevel)} flex items-center gap-2 px-3 py-1.5 text-sm font-medium border rounded-full ${
+          lowConfidence ? 'opacity-60 border-dashed' : ''
+        }`}>
+          {getFodmapIcon(item.fodmapLevel)}
+          {item.fodmapLevel.toUpperCase()}{lowConfidence && '?'}
+        </Badge>
+      </div>
+
+      {item.genericLevel !== item.fodmapLevel && (
+        <p className="-mt-2 mb-4 text-xs text-slate-500">
+          Rated for your tolerances · generic rating {item.genericLevel}
+        </p>
+      )}
+
+      {diets.length > 0 && (
+        <div className={`mb-4 p-3 rounded-lg border text-sm ${getVerdictColor(verdict)}`}>
+          <p className="flex items-center gap-2 font-semibold">
+            {getVerdictIcon(verdict)}
+            {VERDICT_LABELS[verdict]}{lowConfidence && verdict !== 'ask' && '?'}
+            <span className="font-normal opacity-80">· FODMAP {item.fodmapLevel} and your diets</span>
+          </p>
+          {conflicts.length > 0 && (
+            <ul className="mt-1 space-y-0.5">
+              {conflicts.map((conflict) => <li key={conflict}>{conflict}</li>)}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {lowConfidence && (
+        <div className="mb-4 p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm">
+          <p className="flex items-center gap-2 font-semibold text-amber-800">
+            <HelpCircle className="w-4 h-4" />
+            Needs verification
+          </p>
+          {item.confidenceReasons.length > 0 && (
+            <p className="mt-1 text-amber-700">
+              {item.confidenceReasons.map((reason) => CONFIDENCE_REASON_LABELS[reason]).join(' · ')}
+            </p>
+          )}
+          {item.staffQuestions.length > 0 && (
+            <>
+              <p className="mt-3 font-semibold text-amber-800">Ask the staff:</p>
+              <ul className="mt-1 space-y-1 text-amber-700">
+                {item.staffQuestions.map((question, i) => (
+                  <li key={i} className="flex items-center gap-2">
+                    <div className="w-1.5 h-1.5 bg-amber-400 rounded-full"></div>
+                    {question}
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+
+      {item.description && (
+        <p className="text-slate-600 mb-4 leading-relaxed">{item.description}</p>
+      )}
+
+      {item.allergens.length > 0 && (
+        <div className="mb-4 flex flex-wrap items-center gap-1.5">
+          <span className="text-sm font-semibold text-slate-700 mr-1">Allergens:</span>
+          {item.allergens.map((allergen) => (
+            <Badge key={allergen} variant="outline" className="rounded-full border-slate-300 text-slate-600 font-normal">
+              {ALLERGEN_LABELS[allergen]}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      {item.subgroups.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-semibold text-slate-700 mb-2">FODMAP breakdown:</p>
+          <ul className="space-y-2">
+            {item.subgroups.map((subgroup, i) => (
+              <li key={i} className="flex items-center justify-between gap-3 text-sm">
+                <span className="text-slate-700">
+                  <span className="font-medium">{FODMAP_SUBGROUP_LABELS[subgroup.subgroup]}</span>
+                  <span className="text-slate-500"> · {subgroup.ingredient}</span>
+                  {subgroup.safeServingGrams !== null && (
+                    <span className="text-slate-400"> (low up to {subgroup.safeServingGrams} g)</span>
+                  )}
+                  <span className="ml-2">{getOriginLabel(subgroup.origin)}</span>
+                  {subgroup.genericLevel !== subgroup.level && (
+                    <span className="text-slate-400 line-through ml-2">{subgroup.genericLevel}</span>
+                  )}
+                </span>
+                <Badge className={`${getFodmapColor(subgroup.level)} flex items-center gap-1.5 px-2 py-0.5 text-xs font-medium border rounded-full`}>
+                  {getFodmapIcon(subgroup.level)}
+                  {subgroup.level.toUpperCase()}
+                </Badge>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {item.concerns.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm font-semibold text-red-700 mb-2">⚠️ Concerns:</p>
+          <ul className="text-sm text-red-600 space-y-1">
+            {item.concerns.map((concern, i) => (
+              <li key={i} className="flex items-center gap-2">
+                <div className="w-1.5 h-1.5 bg-red-400 rounded-full"></div>
+                {concern.text}
+                {getOriginLabel(concern.origin)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {item.alternatives.length > 0 && (
+        <div>
+          <p className="text-sm font-semibold text-emerald-700 mb-2">✨ Alternatives:</p>
+          <ul className="text-sm text-emerald-600 space-y-1">
+            {item.alternatives.map((alt, i) => (
+              <li key={i} className="flex items-center gap-2">
+                <div className="w-1.5 h-1.5 bg-emerald-400 rounded-full"></div>
+                {alt}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {onOpenChefCard && (
+        <div className="mt-4 flex justify-end">
+          <Button variant="outline" size="sm" className="gap-2 bg-white/70" onClick={onOpenChefCard}>
+            <ChefHat className="w-4 h-4" />
+            Chef card
+          </Button>
+        </div>
+      )}
+    </motion.div>
+  )
+}
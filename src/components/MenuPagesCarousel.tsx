@@ -0,0 +1,97 @@
+import { useEffect, useState } from 'react'
+import { ImageOff } from "lucide-react"
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/ui/carousel"
+import { MenuImageOverlay } from "@/components/MenuImageOverlay"
+import type { MenuPage, MissingImageReason, SessionMenuItem } from '@/lib/menuSession'
+
+const MISSING_IMAGE_MESSAGES: Record<MissingImageReason, string> = {
+  'deleted': 'The original photo was deleted after the retention period. The analysis is kept.',
+  'not-uploaded': 'This photo matched an earlier analysis, so it was never uploaded. The analysis is kept.',
+  'unavailable': 'The photo could not be loaded. The analysis is kept.',
+}
+
+interface MenuPagesCarouselProps {
+  pages: MenuPage[]
+  items: SessionMenuItem[]
+  activeIndex: number | null
+  onActiveIndexChange: (index: number | null) => void
+  onSelect: (index: number) => void
+}
+
+export function MenuPagesCarousel({ pages, items, activeIndex, onActiveIndexChange, onSelect }: MenuPagesCarouselProps) {
+  const [api, setApi] = useState<CarouselApi>()
+  const [currentPage, setCurrentPage] = useState(0)
+
+  useEffect(() => {
+    if (!api) return
+    const handleSelect = () => setCurrentPage(api.selectedScrollSnap())
+    handleSelect()
+    api.on('select', handleSelect)
+    return () => {
+      api.off('select', handleSelect)
+    }
+  }, [api])
+
+  // Hovering the card of a dish that is on another page brings that page into view.
+  useEffect(() => {
+    if (!api || activeIndex === null) return
+    const itemPages = items[activeIndex]?.occurrences.map((occurrence) => occurrence.page) ?? []
+    if (itemPages.length > 0 && !itemPages.includes(api.selectedScrollSnap())) {
+      api.scrollTo(itemPages[0])
+    }
+  }, [api, activeIndex, items])
+
+  const overlayProps = { items, activeIndex, onActiveIndexChange, onSelect }
+
+  const renderPage = (page: MenuPage, index: number) => page.imageUrl
+    ? <MenuImageOverlay imageUrl={page.imageUrl} page={index} {...overlayProps} />
+    : (
+      <div className="flex flex-col items-center justify-center gap-3 aspect-[3/4] rounded-lg bg-slate-100 text-center text-sm text-slate-500 p-8">
+        <ImageOff className="w-8 h-8 text-slate-400" />
+        {MISSING_IMAGE_MESSAGES[page.missingImage ?? 'unavailable']}
+      </div>
+    )
+
+  if (pages.length === 1) {
+    return renderPage(pages[0], 0)
+  }
+
+  return (
+    <div>
+      <Carousel setApi={setApi}>
+        <CarouselContent>
+          {pages.map((page, index) => (
+            <CarouselItem key={index}>
+              {renderPage(page, index)}
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        <CarouselPrevious className="left-2 bg-white/90 shadow-md" />
+        <CarouselNext className="right-2 bg-white/90 shadow-md" />
+      </Carousel>
+      <div className="flex items-center justify-center gap-2 mt-4">
+        {pages.map((_, index) => (
+          <button
+            key={index}
+            type="button"
+            aria-label={`Show page ${index + 1}`}
+            onClick={() => api?.scrollTo(index)}
+            className={`h-2 rounded-full transition-all duration-300 ${
+              index === currentPage ? 'w-6 bg-blue-500' : 'w-2 bg-slate-300 hover:bg-slate-400'
+            }`}
+          />
+        ))}
+      </div>
+      <p className="text-center text-sm text-slate-500 mt-2">
+        Page {currentPage + 1} of {pages.length}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import type { ReactNode } from 'react'
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import type { FodmapItem, FodmapLevel } from '@shared/fodmap-schema'
+import { getSectionKey, type MenuSectionGroup } from '@/lib/resultFilters'
+
+const COUNTED_LEVELS: { level: FodmapLevel; className: string }[] = [
+  { level: 'low', className: 'bg-emerald-100 text-emerald-800' },
+  { level: 'moderate', className: 'bg-amber-100 text-amber-800' },
+  { level: 'high', className: 'bg-red-100 text-red-800' },
+]
+
+interface MenuSectionAccordionProps<T extends FodmapItem> {
+  groups: MenuSectionGroup<T>[]
+  // Keys (getSectionKey) of the sections the user folded away; the rest are open
+  collapsedSections: string[]
+  onCollapsedSectionsChange: (keys: string[]) => void
+  renderItem: (item: T, index: number) => ReactNode
+}
+
+// One collapsible group per menu heading, with its low, moderate and high
+// dish counts. Sections start open so new ones appear while streaming.
+export function MenuSectionAccordion<T extends FodmapItem>({
+  groups,
+  collapsedSections,
+  onCollapsedSectionsChange,
+  renderItem,
+}: MenuSectionAccordionProps<T>) {
+  const keys = groups.map((group) => getSectionKey(group.heading))
+
+  return (
+    <Accordion
+      type="multiple"
+      value={keys.filter((key) => !collapsedSections.includes(key))}
+      onValueChange={(open) => onCollapsedSectionsChange([
+        // Sections hidden by the filters stay as the user left them
+        ...collapsedSections.filter((key) => !keys.includes(key)),
+        ...keys.filter((key) => !open.includes(key)),
+      ])}
+    >
+      {groups.map((group, position) => (
+        <AccordionItem key={keys[position]} value={keys[position]} className="border-slate-200/60">
+          <AccordionTrigger className="gap-3 hover:no-underline">
+            <span className="flex flex-1 flex-wrap items-center justify-between gap-2">
+              <span className="font-serif text-lg font-semibold text-slate-900">
+                {group.heading ?? 'Other dishes'}
+              </span>
+              <span className="flex items-center gap-1.5">
+                {COUNTED_LEVELS.map(({ level, className }) => (
+                  <span
+                    key={level}
+                    title={`${group.levelCounts[level]} ${level} FODMAP`}
+                    className={`rounded-full px-2 py-0.5 text-xs font-medium ${className} ${
+                      group.levelCounts[level] === 0 ? 'opacity-40' : ''
+                    }`}
+                  >
+                    {group.levelCounts[level]} {level}
+                  </span>
+                ))}
+              </span>
+            </span>
+          </AccordionTrigger>
+          <AccordionContent className="space-y-6 pt-2">
+            {group.entries.map(({ item, index }) => renderItem(item, index))}
+          </AccordionContent>
+        </AccordionItem>
+      ))}
+    </Accordion>
+  )
+}
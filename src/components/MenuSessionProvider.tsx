@@ -0,0 +1,329 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react'
+import toast from 'react-hot-toast'
+import type { AnalysisQuota, AnalyzeMenuRequest, FodmapItem, ValidationIssue } from '@shared/fodmap-schema'
+import { fetchAnalysisQuota } from '@/lib/analysisQuota'
+import { analyzeMenu, AnalyzeMenuError } from '@/lib/analyzeMenu'
+import {
+  createPageProgress,
+  mergeMenuPages,
+  type MenuPage,
+  type MenuSource,
+  type PageProgress,
+  type SessionMenuItem,
+} from '@/lib/menuSession'
+import {
+  DISPLAY_URL_TTL_SECONDS,
+  hashMenuImage,
+  MODEL_URL_TTL_SECONDS,
+  signMenuImage,
+  uploadMenuImage,
+} from '@/lib/menuImages'
+import { prepareMenuImage } from '@/lib/menuImagePreprocessing'
+import { isPdfFile, splitPdfIntoPages } from '@/lib/pdfMenu'
+import { useAccount } from '@/hooks/use-account'
+import { MenuSessionContext, type ProcessingState } from '@/hooks/use-menu-session'
+
+// A page ready for upload: a photo, or one page of a PDF
+interface PendingPage {
+  label: string
+  fileName: string
+  image: Blob
+  text: string | null
+  // Photos are normalized before upload; rendered PDF pages already are
+  isPhoto: boolean
+}
+
+export function MenuSessionProvider({ children }: { children: ReactNode }) {
+  const { session } = useAccount()
+  const userId = session.user.id
+  const [analysisId, setAnalysisId] = useState<string | null>(null)
+  const [state, setState] = useState<ProcessingState>('idle')
+  const [pages, setPages] = useState<MenuPage[]>([])
+  const [pageProgress, setPageProgress] = useState<PageProgress[]>([])
+  const [menuSource, setMenuSource] = useState<MenuSource>({ kind: 'images' })
+  const [menuItems, setMenuItems] = useState<SessionMenuItem[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [errorIssues, setErrorIssues] = useState<ValidationIssue[]>([])
+  const [quota, setQuota] = useState<AnalysisQuota | null>(null)
+  // Updates from an analysis that was reset or replaced are dropped
+  const currentIdRef = useRef<string | null>(null)
+  // Previews of pages answered from the cache, which are never uploaded
+  const objectUrlsRef = useRef<string[]>([])
+
+  const revokeObjectUrls = () => {
+    objectUrlsRef.current.forEach((url) => URL.revokeObjectURL(url))
+    objectUrlsRef.current = []
+  }
+
+  // Later analyze-menu responses keep this up to date
+  useEffect(() => {
+    let cancelled = false
+    fetchAnalysisQuota()
+      .then((initialQuota) => {
+        if (!cancelled) setQuota((current) => current ?? initialQuota)
+      })
+      .catch((quotaError: unknown) => console.warn('Could not load analysis quota:', quotaError))
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const begin = (id: string, nextState: ProcessingState, source: MenuSource) => {
+    revokeObjectUrls()
+    currentIdRef.current = id
+    setAnalysisId(id)
+    setState(nextState)
+    setError(null)
+    setErrorIssues([])
+    setMenuSource(source)
+    setPageProgress([])
+    setPages([])
+    setMenuItems([])
+  }
+
+  const reset = () => {
+    revokeObjectUrls()
+    currentIdRef.current = null
+    setAnalysisId(null)
+    setState('idle')
+    setPages([])
+    setPageProgress([])
+    setMenuItems([])
+    setError(null)
+    setErrorIssues([])
+  }
+
+  // Scopes every state update to one analysis
+  const sessionUpdates = (id: string) => {
+    const whenCurrent = <A extends unknown[]>(update: (...args: A) => void) =>
+      (...args: A) => {
+        if (currentIdRef.current === id) update(...args)
+      }
+
+    const updatePageProgress = whenCurrent((index: number, update: (page: PageProgress) => Partial<PageProgress>) => {
+      setPageProgress((current) => current.map((page, i) => (i === index ? { ...page, ...update(page) } : page)))
+    })
+
+    return {
+      setState: whenCurrent(setState),
+      setPages: whenCurrent(setPages),
+      setPageProgress: whenCurrent(setPageProgress),
+      setMenuItems: whenCurrent(setMenuItems),
+      updatePageProgress,
+      fail: whenCurrent((err: unknown) => {
+        const typedError = err as Error
+        console.error("Error during processing:", typedError)
+        setError(typedError.message || "An unexpected error occurred.")
+        setErrorIssues(err instanceof AnalyzeMenuError ? err.issues : [])
+        setState('idle')
+        setPages([])
+      }),
+      // Runs one page through analyze-menu, reporting each stage and handing
+      // over every dish as it arrives so results show while the rest are rated.
+      analyzePage: async (index: number, request: AnalyzeMenuRequest, onItem: (item: FodmapItem) => void) => {
+        try {
+          const items = await analyzeMenu(request, {
+            onQuota: setQuota,
+            onReceived: () => updatePageProgress(index, () => ({ status: 'reading' })),
+            onDishes: (names) => updatePageProgress(index, () => ({ status: 'rating', dishesTotal: names.length })),
+            onItem: (item) => {
+              updatePageProgress(index, (page) => ({ status: 'rating', dishesRated: page.dishesRated + 1 }))
+              if (currentIdRef.current === id) onItem(item)
+            },
+          })
+          updatePageProgress(index, () => ({ status: 'done' }))
+          return items
+        } catch (analysisError: unknown) {
+          updatePageProgress(index, () => ({ status: 'failed' }))
+          throw analysisError
+        }
+      },
+    }
+  }
+
+  // The items of an earlier analysis of the same image, or null on a miss.
+  // Any other failure also falls back to analyzing the page normally.
+  const lookUpCachedAnalysis = async (request: AnalyzeMenuRequest): Promise<FodmapItem[] | null> => {
+    try {
+      return await analyzeMenu(request)
+    } catch (lookupError: unknown) {
+      if (!(lookupError instanceof AnalyzeMenuError && lookupError.code === 'cache_miss')) {
+        console.warn('Could not look up a cached analysis:', lookupError)
+      }
+      return null
+    }
+  }
+
+  const runImageSession = async (id: string, files: File[]) => {
+    const updates = sessionUpdates(id)
+
+    const preparePhoto = async (index: number, page: PendingPage) => {
+      try {
+        const prepared = await prepareMenuImage(page.image, page.fileName)
+        updates.updatePageProgress(index, () => ({ imageSavings: prepared.savings }))
+        return prepared
+      } catch (prepareError: unknown) {
+        updates.updatePageProgress(index, () => ({ status: 'failed' }))
+        throw prepareError
+      }
+    }
+
+    try {
+      // 1. Split PDFs into one image per page, keeping any text layer
+      const pendingPages: PendingPage[] = []
+      const showPendingPages = () => updates.setPageProgress(pendingPages.map((page) => (
+        createPageProgress(page.label, page.text !== null)
+      )))
+
+      for (const file of files) {
+        if (isPdfFile(file)) {
+          const baseName = file.name.replace(/\.pdf$/i, '')
+          await splitPdfIntoPages(file, (pageIndex, page) => {
+            pendingPages.push({
+              label: `${file.name} · page ${pageIndex + 1}`,
+              fileName: `${baseName}-page-${pageIndex + 1}.jpg`,
+              image: page.image,
+              text: page.text,
+              isPhoto: false,
+            })
+            showPendingPages()
+          })
+        } else {
+          pendingPages.push({ label: file.name, fileName: file.name, image: file, text: null, isPhoto: true })
+          showPendingPages()
+        }
+      }
+
+      // 2. Reuse earlier analyses, then upload and analyze the remaining pages
+      // in parallel, showing dishes as they arrive. Pages that fail to upload
+      // are left out of the carousel.
+      const sessionPages: (MenuPage | null)[] = pendingPages.map(() => null)
+      const sessionItems: FodmapItem[][] = pendingPages.map(() => [])
+      const showSession = () => {
+        const uploaded = sessionPages.flatMap((page, i) => (page ? [{ page, items: sessionItems[i] }] : []))
+        updates.setPages(uploaded.map(({ page }) => page))
+        updates.setMenuItems(mergeMenuPages(uploaded.map(({ items }) => items)))
+      }
+
+      const pageResults = await Promise.allSettled(pendingPages.map(async (pendingPage, index) => {
+        const { image, fileName } = pendingPage.isPhoto
+          ? await preparePhoto(index, pendingPage)
+          : pendingPage
+
+        // An image analyzed before, by anyone, needs no upload and no model call
+        const contentHash = await hashMenuImage(image)
+        const cachedItems = await lookUpCachedAnalysis({
+          contentHash,
+          page: { analysisId: id, index, fileName },
+        })
+        if (cachedItems) {
+          const previewUrl = URL.createObjectURL(image)
+          objectUrlsRef.current.push(previewUrl)
+          sessionPages[index] = { imageUrl: previewUrl, fileName }
+          sessionItems[index] = cachedItems
+          updates.updatePageProgress(index, () => ({ status: 'done', fromCache: true }))
+          showSession()
+          return
+        }
+
+        updates.updatePageProgress(index, () => ({ status: 'uploading' }))
+        let imagePath: string
+        let modelUrl: string
+        try {
+          imagePath = await uploadMenuImage(userId, image, fileName)
+          const [displayUrl, signedModelUrl] = await Promise.all([
+            signMenuImage(imagePath, DISPLAY_URL_TTL_SECONDS),
+            signMenuImage(imagePath, MODEL_URL_TTL_SECONDS),
+          ])
+          modelUrl = signedModelUrl
+          sessionPages[index] = { imageUrl: displayUrl, fileName }
+        } catch (uploadError: unknown) {
+          updates.updatePageProgress(index, () => ({ status: 'failed' }))
+          throw uploadError
+        }
+        showSession()
+
+        updates.setState('analyzing')
+        // A failed page keeps its image in the carousel, just without dishes
+        const historyPage = { analysisId: id, index, fileName, imagePath }
+        await updates.analyzePage(
+          index,
+          pendingPage.text !== null
+            ? { menuText: pendingPage.text, contentHash, page: historyPage }
+            : { imageUrl: modelUrl, contentHash, page: historyPage },
+          (item) => {
+            sessionItems[index].push(item)
+            showSession()
+          },
+        )
+      }))
+
+      // 3. Merge the pages into one menu
+      const failures = pageResults.flatMap((result) => (result.status === 'rejected' ? [result.reason] : []))
+      if (failures.length === pageResults.length) {
+        throw failures[0]
+      }
+      if (failures.length > 0 && currentIdRef.current === id) {
+        toast.error(`${failures.length} of ${pageResults.length} pages could not be analyzed`)
+      }
+
+      showSession()
+      updates.setState('complete')
+
+    } catch (err: unknown) {
+      updates.fail(err)
+    }
+  }
+
+  // Pasted text and web pages have no images, so they are a single "page"
+  const runSourceSession = async (id: string, request: AnalyzeMenuRequest, source: MenuSource) => {
+    const updates = sessionUpdates(id)
+    updates.setPageProgress([createPageProgress(source.kind === 'url' ? source.url : 'Pasted menu text')])
+
+    try {
+      const items: FodmapItem[] = []
+      await updates.analyzePage(0, { ...request, page: { analysisId: id, index: 0 } }, (item) => {
+        items.push(item)
+        updates.setMenuItems(mergeMenuPages([items]))
+      })
+      updates.setState('complete')
+    } catch (err: unknown) {
+      updates.fail(err)
+    }
+  }
+
+  const analyzeFiles = (files: File[]) => {
+    const id = crypto.randomUUID()
+    begin(id, 'uploading', { kind: 'images' })
+    void runImageSession(id, files)
+    return id
+  }
+
+  const analyzeSource = (request: AnalyzeMenuRequest, source: MenuSource) => {
+    const id = crypto.randomUUID()
+    begin(id, 'analyzing', source)
+    void runSourceSession(id, request, source)
+    return id
+  }
+
+  return (
+    <MenuSessionContext.Provider
+      value={{
+        analysisId,
+        state,
+        pages,
+        pageProgress,
+        menuSource,
+        menuItems,
+        error,
+        errorIssues,
+        quota,
+        analyzeFiles,
+        analyzeSource,
+        reset,
+      }}
+    >
+      {children}
+    </MenuSessionContext.Provider>
+  )
+}
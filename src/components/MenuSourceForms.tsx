@@ -0,0 +1,68 @@
+import { useState } from 'react'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Globe, Type } from "lucide-react"
+import { MAX_MENU_TEXT_LENGTH } from '@shared/fodmap-schema'
+
+const submitButtonClassName = "px-8 py-6 text-lg bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 shadow-lg hover:shadow-xl transition-all duration-300 rounded-xl border-0"
+
+interface MenuSourceFormProps {
+  onSubmit: (value: string) => void
+  disabled?: boolean
+}
+
+export function MenuTextForm({ onSubmit, disabled = false }: MenuSourceFormProps) {
+  const [menuText, setMenuText] = useState('')
+
+  return (
+    <form
+      className="space-y-6"
+      onSubmit={(event) => {
+        event.preventDefault()
+        if (menuText.trim()) onSubmit(menuText.trim())
+      }}
+    >
+      <Textarea
+        value={menuText}
+        onChange={(event) => setMenuText(event.target.value)}
+        maxLength={MAX_MENU_TEXT_LENGTH}
+        placeholder={"Starters\nBruschetta – tomato, garlic, basil\nMinestrone soup..."}
+        className="min-h-[220px] bg-white/70 text-base"
+        aria-label="Menu text"
+      />
+      <Button type="submit" size="lg" className={submitButtonClassName} disabled={disabled || !menuText.trim()}>
+        <Type className="w-6 h-6 mr-3" />
+        Analyze Text
+      </Button>
+    </form>
+  )
+}
+
+export function MenuUrlForm({ onSubmit, disabled = false }: MenuSourceFormProps) {
+  const [menuUrl, setMenuUrl] = useState('')
+
+  return (
+    <form
+      className="space-y-6"
+      onSubmit={(event) => {
+        event.preventDefault()
+        if (menuUrl.trim()) onSubmit(menuUrl.trim())
+      }}
+    >
+      <Input
+        type="url"
+        required
+        value={menuUrl}
+        onChange={(event) => setMenuUrl(event.target.value)}
+        placeholder="https://restaurant.example/menu"
+        className="h-12 bg-white/70 text-base"
+        aria-label="Menu page URL"
+      />
+      <Button type="submit" size="lg" className={submitButtonClassName} disabled={disabled || !menuUrl.trim()}>
+        <Globe className="w-6 h-6 mr-3" />
+        Analyze Website
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,48 @@
+import { CheckCircle, Loader2, XCircle } from "lucide-react"
+import type { PageProgress, PageStatus } from '@/lib/menuSession'
+
+const STATUS_LABELS: Record<PageStatus, string> = {
+  preparing: 'Preparing',
+  uploading: 'Uploading',
+  reading: 'Reading menu',
+  rating: 'Rating dishes',
+  done: 'Done',
+  failed: 'Failed',
+}
+
+const getPageStatusLabel = (page: PageProgress) =>
+  page.status === 'rating' && page.dishesTotal !== null
+    ? `${page.dishesRated} of ${page.dishesTotal} dishes rated`
+    : STATUS_LABELS[page.status]
+
+const getStatusIcon = (status: PageStatus) => {
+  switch (status) {
+    case 'done': return <CheckCircle className="w-4 h-4 text-emerald-600" />
+    case 'failed': return <XCircle className="w-4 h-4 text-red-600" />
+    default: return <Loader2 className="w-4 h-4 text-blue-500 animate-spin" />
+  }
+}
+
+export function PageProgressList({ pages }: { pages: PageProgress[] }) {
+  return (
+    <ul className="w-full max-w-md mx-auto mt-8 space-y-2 text-left">
+      {pages.map((page, index) => (
+        <li key={index} className="flex items-center justify-between gap-3 text-sm">
+          <span className="truncate text-slate-700">
+            {page.label}
+            {page.usesTextLayer && (
+              <span className="ml-2 text-xs font-medium text-blue-600">text layer</span>
+            )}
+            {page.fromCache && (
+              <span className="ml-2 text-xs font-medium text-emerald-600">analyzed before</span>
+            )}
+          </span>
+          <span className="flex items-center gap-1.5 shrink-0 text-slate-500">
+            {getStatusIcon(page.status)}
+            {getPageStatusLabel(page)}
+          </span>
+        </li>
+      ))}
+    </ul>
+  )
+}
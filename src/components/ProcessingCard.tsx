@@ -0,0 +1,57 @@
+import { Brain, Minimize2, Zap } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { PageProgressList } from "@/components/PageProgressList"
+import { getOverallProgress, type PageProgress } from '@/lib/menuSession'
+import { formatBytes } from '@/lib/menuImagePreprocessing'
+
+interface ProcessingCardProps {
+  // Uploading covers splitting PDFs and storing pages; analyzing is the model call
+  stage: 'uploading' | 'analyzing'
+  pageProgress: PageProgress[]
+}
+
+export function ProcessingCard({ stage, pageProgress }: ProcessingCardProps) {
+  const progress = getOverallProgress(pageProgress)
+  const optimized = pageProgress.flatMap((page) => page.imageSavings ?? [])
+  const originalBytes = optimized.reduce((sum, savings) => sum + savings.originalBytes, 0)
+  const optimizedBytes = optimized.reduce((sum, savings) => sum + savings.optimizedBytes, 0)
+
+  return (
+    <Card className="max-w-2xl mx-auto bg-white/80 backdrop-blur-xl border-0 shadow-xl shadow-slate-200/50">
+      <CardContent className="p-16">
+        <div className="text-center">
+          <div className="relative mb-8">
+            <div className="w-32 h-32 mx-auto bg-gradient-to-br from-purple-500 to-pink-600 rounded-3xl flex items-center justify-center shadow-2xl shadow-purple-500/25">
+              <Brain className="w-16 h-16 text-white animate-pulse" />
+            </div>
+            <div className="absolute -top-2 -right-2 w-8 h-8 bg-gradient-to-r from-yellow-400 to-orange-500 rounded-full flex items-center justify-center animate-spin">
+              <Zap className="w-4 h-4 text-white" />
+            </div>
+          </div>
+          <h2 className="text-3xl font-serif font-semibold text-slate-900 mb-4">
+            {stage === 'uploading' ? 'Processing Menu...' : 'Analyzing Menu...'}
+          </h2>
+          <p className="text-lg text-slate-600 mb-12 leading-relaxed">
+            {stage === 'uploading'
+              ? 'Preparing your menu pages for analysis'
+              : 'AI is identifying dishes and analyzing FODMAP content'
+            }
+          </p>
+          <div className="w-full max-w-md mx-auto mb-6">
+            <Progress value={progress} className="h-3 bg-slate-200" />
+          </div>
+          <p className="text-lg font-medium text-slate-700">{progress}% complete</p>
+          {optimizedBytes < originalBytes && (
+            <p className="mt-3 flex items-center justify-center gap-2 text-sm text-emerald-700">
+              <Minimize2 className="w-4 h-4" />
+              {optimized.length === 1 ? 'Photo' : `${optimized.length} photos`} optimized: {formatBytes(originalBytes)} → {formatBytes(optimizedBytes)}
+              {' '}({Math.round((1 - optimizedBytes / originalBytes) * 100)}% smaller)
+            </p>
+          )}
+          <PageProgressList pages={pageProgress} />
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
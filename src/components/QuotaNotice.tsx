@@ -0,0 +1,31 @@
+import { motion } from "framer-motion"
+import { Clock, Gauge } from "lucide-react"
+import type { AnalysisQuota } from '@shared/fodmap-schema'
+
+export function QuotaNotice({ quota }: { quota: AnalysisQuota }) {
+  if (quota.remaining > 0) {
+    return (
+      <p className="mt-8 flex items-center justify-center gap-2 text-sm text-slate-500">
+        <Gauge className="w-4 h-4" />
+        {quota.remaining} of {quota.limit} menu pages left to analyze today
+      </p>
+    )
+  }
+
+  const resetTime = new Date(quota.resetsAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mt-8 p-4 bg-amber-50 border border-amber-200 rounded-lg text-amber-800 text-sm text-left"
+    >
+      <p className="flex items-center gap-2 font-semibold">
+        <Clock className="w-5 h-5" />
+        You've analyzed all {quota.limit} menu pages for today
+      </p>
+      <p className="mt-1 ml-7 text-amber-700">
+        Your quota resets at {resetTime}. Saved analyses in your history are still available.
+      </p>
+    </motion.div>
+  )
+}
@@ -0,0 +1,182 @@
+import { useState } from 'react'
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Command, CommandEmpty, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { FODMAP_LEVELS, type FodmapItem, type FodmapLevel } from '@shared/fodmap-schema'
+import type { Diet } from '@/lib/diets'
+import { getFodmapIcon } from '@/lib/menuItemDisplay'
+import {
+  DEFAULT_RESULT_FILTERS,
+  filterMenuItems,
+  findQueryMatch,
+  getMenuCurrency,
+  RESULT_SORT_LABELS,
+  RESULT_SORTS,
+  type ResultFilters,
+  type ResultSort,
+} from '@/lib/resultFilters'
+
+const MAX_SUGGESTIONS = 8
+
+const LEVEL_CHIP_COLORS: Record<FodmapLevel, string> = {
+  low: 'data-[state=on]:bg-emerald-100 data-[state=on]:text-emerald-800',
+  moderate: 'data-[state=on]:bg-amber-100 data-[state=on]:text-amber-800',
+  high: 'data-[state=on]:bg-red-100 data-[state=on]:text-red-800',
+  unknown: 'data-[state=on]:bg-slate-200 data-[state=on]:text-slate-800',
+}
+
+interface ResultFilterBarProps {
+  // Every dish, already personalized, so chip counts follow the profile
+  items: FodmapItem[]
+  // The dishes currently shown, in display order
+  visibleItems: FodmapItem[]
+  // The user's other diets; dishes breaking one never fit the budget
+  diets: Diet[]
+  filters: ResultFilters
+  onFiltersChange: (update: Partial<ResultFilters>) => void
+  onJumpTo: (visibleIndex: number) => void
+}
+
+export function ResultFilterBar({
+  items,
+  visibleItems,
+  diets,
+  filters,
+  onFiltersChange,
+  onJumpTo,
+}: ResultFilterBarProps) {
+  const [searchFocused, setSearchFocused] = useState(false)
+  // Typed text rather than the parsed number, so "12." can be typed on the way to "12.5"
+  const [budgetText, setBudgetText] = useState(filters.maxPrice?.toString() ?? '')
+  // Chip counts respect the search and budget but not the chips themselves,
+  // so switching a level on shows how many dishes it would add.
+  const matchingItems = filterMenuItems(items, { ...filters, levels: [] }, diets)
+  const levelCounts = Object.fromEntries(FODMAP_LEVELS.map((level) => [
+    level,
+    matchingItems.filter((item) => item.fodmapLevel === level).length,
+  ])) as Record<FodmapLevel, number>
+  const hasPrices = items.some((item) => item.price !== null)
+  const currency = getMenuCurrency(items)
+  const isFiltered = filters.levels.length > 0 || filters.query.trim() !== '' || filters.maxPrice !== null
+
+  const handleBudgetChange = (text: string) => {
+    setBudgetText(text)
+    const maxPrice = Number(text.replace(',', '.'))
+    onFiltersChange({ maxPrice: text.trim() !== '' && Number.isFinite(maxPrice) ? maxPrice : null })
+  }
+
+  const handleClear = () => {
+    setBudgetText('')
+    onFiltersChange({
+      levels: DEFAULT_RESULT_FILTERS.levels,
+      query: DEFAULT_RESULT_FILTERS.query,
+      maxPrice: DEFAULT_RESULT_FILTERS.maxPrice,
+    })
+  }
+
+  const showSuggestions = searchFocused && filters.query.trim() !== ''
+
+  return (
+    <div className="space-y-3">
+      <Command shouldFilter={false} className="rounded-xl border border-slate-200/60 bg-white/60 overflow-visible">
+        <CommandInput
+          value={filters.query}
+          onValueChange={(query) => onFiltersChange({ query })}
+          onFocus={() => setSearchFocused(true)}
+          onBlur={() => setSearchFocused(false)}
+          placeholder="Search dishes, ingredients or concerns..."
+        />
+        {showSuggestions && (
+          // Keep focus in the input while an item is being clicked
+          <CommandList onMouseDown={(event) => event.preventDefault()}>
+            <CommandEmpty>No dishes match "{filters.query}".</CommandEmpty>
+            {visibleItems.slice(0, MAX_SUGGESTIONS).map((item, index) => (
+              <CommandItem
+                key={index}
+                value={`${index}`}
+                onSelect={() => {
+                  setSearchFocused(false)
+                  onJumpTo(index)
+                }}
+                className="flex items-center justify-between gap-3"
+              >
+                <span className="truncate">{item.name}</span>
+                <span className="shrink-0 text-xs text-slate-400 truncate max-w-[50%]">
+                  {findQueryMatch(item, filters.query)}
+                </span>
+              </CommandItem>
+            ))}
+          </CommandList>
+        )}
+      </Command>
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          value={filters.levels}
+          onValueChange={(levels) => onFiltersChange({ levels: levels as FodmapLevel[] })}
+          aria-label="Filter by FODMAP level"
+          className="flex-wrap justify-start"
+        >
+          {FODMAP_LEVELS.map((level) => (
+            <ToggleGroupItem
+              key={level}
+              value={level}
+              disabled={levelCounts[level] === 0 && !filters.levels.includes(level)}
+              className={`gap-1.5 rounded-full border border-slate-200 capitalize ${LEVEL_CHIP_COLORS[level]}`}
+            >
+              {getFodmapIcon(level)}
+              {level}
+              <span className="text-xs opacity-70">{levelCounts[level]}</span>
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {hasPrices && (
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              Budget
+              <Input
+                type="text"
+                inputMode="decimal"
+                value={budgetText}
+                onChange={(event) => handleBudgetChange(event.target.value)}
+                placeholder={currency ?? 'Max'}
+                aria-label={`Maximum price${currency ? ` in ${currency}` : ''}`}
+                className="w-24 h-9 bg-white/60"
+              />
+            </label>
+          )}
+          <Select value={filters.sort} onValueChange={(sort) => onFiltersChange({ sort: sort as ResultSort })}>
+            <SelectTrigger className="w-44 h-9 bg-white/60" aria-label="Sort dishes">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESULT_SORTS.map((sort) => (
+                <SelectItem key={sort} value={sort}>{RESULT_SORT_LABELS[sort]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {isFiltered && (
+        <div className="flex items-center justify-between text-sm text-slate-500">
+          <span>{visibleItems.length} of {items.length} dishes shown</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleClear}
+          >
+            <X className="w-4 h-4 mr-1" />
+            Clear filters
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
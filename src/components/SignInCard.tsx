@@ -0,0 +1,125 @@
+import { useState } from 'react'
+import { ArrowLeft, Loader2, Mail } from "lucide-react"
+import toast from 'react-hot-toast'
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { supabase } from '@/lib/supabaseClient'
+
+// Matches otp_length in supabase/config.toml
+const CODE_LENGTH = 6
+
+const submitButtonClassName = "px-8 py-6 text-lg bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 shadow-lg hover:shadow-xl transition-all duration-300 rounded-xl border-0"
+
+export function SignInCard() {
+  const [email, setEmail] = useState('')
+  const [codeSentTo, setCodeSentTo] = useState<string | null>(null)
+  const [code, setCode] = useState('')
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const sendCode = async (address: string) => {
+    setPending(true)
+    setError(null)
+    const { error: sendError } = await supabase.auth.signInWithOtp({
+      email: address,
+      options: { shouldCreateUser: true },
+    })
+    setPending(false)
+    if (sendError) {
+      setError(sendError.message)
+      return
+    }
+    setCodeSentTo(address)
+    setCode('')
+    toast.success(`Code sent to ${address}`)
+  }
+
+  // On success onAuthStateChange picks up the session; nothing else to do here.
+  const verifyCode = async (token: string) => {
+    if (!codeSentTo) return
+    setPending(true)
+    setError(null)
+    const { error: verifyError } = await supabase.auth.verifyOtp({ email: codeSentTo, token, type: 'email' })
+    setPending(false)
+    if (verifyError) {
+      setError(verifyError.message)
+      setCode('')
+    }
+  }
+
+  return (
+    <div className="text-center">
+      <div className="w-24 h-24 mx-auto mb-8 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-3xl flex items-center justify-center shadow-2xl shadow-blue-500/25">
+        <Mail className="w-12 h-12 text-white" />
+      </div>
+
+      {codeSentTo === null ? (
+        <>
+          <h2 className="text-3xl font-serif font-semibold text-slate-900 mb-4">Sign in to get started</h2>
+          <p className="text-lg text-slate-600 mb-8 leading-relaxed">
+            We'll email you a {CODE_LENGTH}-digit code. Your menus, analyses and tolerances stay in your account.
+          </p>
+          <form
+            className="space-y-6 max-w-sm mx-auto"
+            onSubmit={(event) => {
+              event.preventDefault()
+              if (email.trim()) sendCode(email.trim())
+            }}
+          >
+            <Input
+              type="email"
+              required
+              autoComplete="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              placeholder="you@example.com"
+              className="h-12 bg-white/70 text-base"
+              aria-label="Email address"
+            />
+            <Button type="submit" size="lg" className={submitButtonClassName} disabled={pending || !email.trim()}>
+              {pending ? <Loader2 className="w-6 h-6 mr-3 animate-spin" /> : <Mail className="w-6 h-6 mr-3" />}
+              Email Me a Code
+            </Button>
+          </form>
+        </>
+      ) : (
+        <>
+          <h2 className="text-3xl font-serif font-semibold text-slate-900 mb-4">Check your email</h2>
+          <p className="text-lg text-slate-600 mb-8 leading-relaxed">
+            Enter the code we sent to <span className="font-medium text-slate-900">{codeSentTo}</span>
+          </p>
+          <div className="flex justify-center">
+            <InputOTP
+              maxLength={CODE_LENGTH}
+              value={code}
+              onChange={setCode}
+              onComplete={verifyCode}
+              disabled={pending}
+              autoFocus
+            >
+              <InputOTPGroup>
+                {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} className="h-12 w-12 text-lg bg-white/70" />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+          <div className="mt-8 flex items-center justify-center gap-4 text-sm">
+            <Button variant="ghost" size="sm" onClick={() => setCodeSentTo(null)} disabled={pending}>
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Use another email
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => sendCode(codeSentTo)} disabled={pending}>
+              Resend code
+            </Button>
+          </div>
+        </>
+      )}
+
+      {error && (
+        <p className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">{error}</p>
+      )}
+    </div>
+  )
+}
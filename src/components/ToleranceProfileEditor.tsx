@@ -0,0 +1,178 @@
+import { RotateCcw, SlidersHorizontal } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet"
+import { FODMAP_SUBGROUPS, FODMAP_SUBGROUP_LABELS, type FodmapSubgroup } from '@shared/fodmap-schema'
+import { DIET_LABELS, DIETS, type Diet } from '@/lib/diets'
+import {
+  DEFAULT_TOLERANCE_PROFILE,
+  isDefaultProfile,
+  TOLERANCE_LABELS,
+  TOLERANCES,
+  type SubgroupTolerance,
+  type ToleranceProfile,
+} from '@/lib/toleranceProfile'
+
+const DEFAULT_PORTION_LIMIT_GRAMS = 50
+
+const TOLERANCE_COLORS = {
+  tolerated: 'text-emerald-700',
+  limited: 'text-amber-700',
+  avoided: 'text-red-700',
+}
+
+interface SubgroupToleranceFieldProps {
+  subgroup: FodmapSubgroup
+  value: SubgroupTolerance
+  onChange: (value: SubgroupTolerance) => void
+}
+
+function SubgroupToleranceField({ subgroup, value, onChange }: SubgroupToleranceFieldProps) {
+  const portionId = `portion-limit-${subgroup}`
+
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200/60 bg-white/60 p-4">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-slate-900">{FODMAP_SUBGROUP_LABELS[subgroup]}</span>
+        <span className={`text-sm font-semibold ${TOLERANCE_COLORS[value.tolerance]}`}>
+          {TOLERANCE_LABELS[value.tolerance]}
+        </span>
+      </div>
+      <Slider
+        min={0}
+        max={TOLERANCES.length - 1}
+        step={1}
+        value={[TOLERANCES.indexOf(value.tolerance)]}
+        onValueChange={([position]) => onChange({ ...value, tolerance: TOLERANCES[position] })}
+        aria-label={`${FODMAP_SUBGROUP_LABELS[subgroup]} tolerance`}
+      />
+      <div className="flex justify-between text-xs text-slate-400">
+        {TOLERANCES.map((tolerance) => <span key={tolerance}>{TOLERANCE_LABELS[tolerance]}</span>)}
+      </div>
+
+      {value.tolerance === 'limited' && (
+        <div className="space-y-3 pt-1">
+          <div className="flex items-center justify-between gap-3">
+            <Label htmlFor={portionId} className="text-sm text-slate-600">Limit my portion size</Label>
+            <Switch
+              id={portionId}
+              checked={value.portionLimitGrams !== null}
+              onCheckedChange={(checked) => onChange({
+                ...value,
+                portionLimitGrams: checked ? DEFAULT_PORTION_LIMIT_GRAMS : null,
+              })}
+            />
+          </div>
+          {value.portionLimitGrams !== null && (
+            <>
+              <Slider
+                min={5}
+                max={250}
+                step={5}
+                value={[value.portionLimitGrams]}
+                onValueChange={([grams]) => onChange({ ...value, portionLimitGrams: grams })}
+                aria-label={`${FODMAP_SUBGROUP_LABELS[subgroup]} portion limit`}
+              />
+              <p className="text-xs text-slate-500">
+                Up to {value.portionLimitGrams} g of a trigger ingredient counts as low when that is within its verified safe serving.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface DietFieldsProps {
+  diets: Diet[]
+  onChange: (diets: Diet[]) => void
+}
+
+function DietFields({ diets, onChange }: DietFieldsProps) {
+  return (
+    <div className="space-y-3 rounded-xl border border-slate-200/60 bg-white/60 p-4">
+      <div>
+        <p className="font-medium text-slate-900">Other diets</p>
+        <p className="text-xs text-slate-500">Dishes that break one are marked to avoid, whatever their FODMAP rating.</p>
+      </div>
+      {DIETS.map((diet) => (
+        <div key={diet} className="flex items-center justify-between gap-3">
+          <Label htmlFor={`diet-${diet}`} className="text-sm text-slate-600">{DIET_LABELS[diet]}</Label>
+          <Switch
+            id={`diet-${diet}`}
+            checked={diets.includes(diet)}
+            onCheckedChange={(checked) => onChange(
+              checked ? [...diets, diet] : diets.filter((followed) => followed !== diet),
+            )}
+          />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface ToleranceProfileEditorProps {
+  profile: ToleranceProfile
+  onChange: (profile: ToleranceProfile) => void
+}
+
+export function ToleranceProfileFields({ profile, onChange }: ToleranceProfileEditorProps) {
+  return (
+    <div className="space-y-4">
+      <DietFields diets={profile.diets} onChange={(diets) => onChange({ ...profile, diets })} />
+      {FODMAP_SUBGROUPS.map((subgroup) => (
+        <SubgroupToleranceField
+          key={subgroup}
+          subgroup={subgroup}
+          value={profile[subgroup]}
+          onChange={(value) => onChange({ ...profile, [subgroup]: value })}
+        />
+      ))}
+      <Button
+        variant="ghost"
+        className="w-full gap-2"
+        disabled={isDefaultProfile(profile)}
+        onClick={() => onChange({ ...DEFAULT_TOLERANCE_PROFILE, diets: profile.diets })}
+      >
+        <RotateCcw className="w-4 h-4" />
+        Reset to generic ratings
+      </Button>
+    </div>
+  )
+}
+
+// The same fields in a side sheet, for adjusting while looking at results
+export function ToleranceProfileEditor({ profile, onChange }: ToleranceProfileEditorProps) {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2 bg-white/70">
+          <SlidersHorizontal className="w-4 h-4" />
+          My tolerances
+          {(!isDefaultProfile(profile) || profile.diets.length > 0) && <span className="w-2 h-2 rounded-full bg-blue-500" />}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="font-serif">My FODMAP tolerances</SheetTitle>
+          <SheetDescription>
+            Mark what you learned during reintroduction and any other diet you follow. Ratings and the order of dishes update right away.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="mt-6">
+          <ToleranceProfileFields profile={profile} onChange={onChange} />
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
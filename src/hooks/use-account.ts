@@ -0,0 +1,20 @@
+import * as React from "react"
+import type { Session } from "@supabase/supabase-js"
+import type { ToleranceProfile } from "@/lib/toleranceProfile"
+
+// Everything that belongs to the signed-in user and is shared across routes
+export interface AccountContextValue {
+  session: Session
+  toleranceProfile: ToleranceProfile
+  setToleranceProfile: (profile: ToleranceProfile) => void
+}
+
+export const AccountContext = React.createContext<AccountContextValue | null>(null)
+
+export function useAccount() {
+  const account = React.useContext(AccountContext)
+  if (!account) {
+    throw new Error("useAccount must be used within an AccountContext provider.")
+  }
+  return account
+}
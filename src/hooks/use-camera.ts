@@ -0,0 +1,64 @@
+import * as React from "react"
+
+type CameraStatus = 'starting' | 'ready' | 'error'
+
+function describeCameraError(error: unknown): string {
+  if (error instanceof DOMException) {
+    if (error.name === 'NotAllowedError') return 'Camera access was blocked. Allow it in your browser settings, or choose photos instead.'
+    if (error.name === 'NotFoundError' || error.name === 'OverconstrainedError') return 'No camera was found on this device.'
+    if (error.name === 'NotReadableError') return 'The camera is being used by another app.'
+  }
+  return 'The camera could not be started. Choose photos instead.'
+}
+
+// Streams the back camera into videoRef while active, at the highest
+// resolution the device offers, and releases it as soon as it is not.
+export function useCamera(active: boolean) {
+  const videoRef = React.useRef<HTMLVideoElement>(null)
+  const [status, setStatus] = React.useState<CameraStatus>('starting')
+  const [error, setError] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!active) return
+
+    let stream: MediaStream | null = null
+    let cancelled = false
+    setStatus('starting')
+    setError(null)
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        throw new Error('The camera needs a secure (https) connection.')
+      }
+      const cameraStream = await navigator.mediaDevices.getUserMedia({
+        audio: false,
+        video: { facingMode: { ideal: 'environment' }, width: { ideal: 3840 }, height: { ideal: 2160 } },
+      })
+      // Closed while the permission prompt was open
+      if (cancelled || !videoRef.current) {
+        cameraStream.getTracks().forEach((track) => track.stop())
+        return
+      }
+      stream = cameraStream
+      videoRef.current.srcObject = stream
+      await videoRef.current.play()
+      if (!cancelled) setStatus('ready')
+    }
+
+    start().catch((cameraError: unknown) => {
+      if (cancelled) return
+      console.warn('Could not start the camera:', cameraError)
+      setError(cameraError instanceof Error && !(cameraError instanceof DOMException)
+        ? cameraError.message
+        : describeCameraError(cameraError))
+      setStatus('error')
+    })
+
+    return () => {
+      cancelled = true
+      stream?.getTracks().forEach((track) => track.stop())
+    }
+  }, [active])
+
+  return { videoRef, status, error }
+}
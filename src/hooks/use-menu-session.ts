@@ -0,0 +1,34 @@
+import * as React from "react"
+import type { AnalysisQuota, AnalyzeMenuRequest, ValidationIssue } from "@shared/fodmap-schema"
+import type { MenuPage, MenuSource, PageProgress, SessionMenuItem } from "@/lib/menuSession"
+
+export type ProcessingState = 'idle' | 'uploading' | 'analyzing' | 'complete'
+
+// The analysis being run in this tab. It outlives route changes, so the
+// results page can follow a session that was started on the upload page.
+export interface MenuSessionValue {
+  analysisId: string | null
+  state: ProcessingState
+  pages: MenuPage[]
+  pageProgress: PageProgress[]
+  menuSource: MenuSource
+  menuItems: SessionMenuItem[]
+  error: string | null
+  errorIssues: ValidationIssue[]
+  // Analyses left today, or null until it has been loaded
+  quota: AnalysisQuota | null
+  // Both start the analysis in the background and return its id right away
+  analyzeFiles: (files: File[]) => string
+  analyzeSource: (request: AnalyzeMenuRequest, source: MenuSource) => string
+  reset: () => void
+}
+
+export const MenuSessionContext = React.createContext<MenuSessionValue | null>(null)
+
+export function useMenuSession() {
+  const session = React.useContext(MenuSessionContext)
+  if (!session) {
+    throw new Error("useMenuSession must be used within a MenuSessionProvider.")
+  }
+  return session
+}
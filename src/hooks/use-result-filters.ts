@@ -0,0 +1,19 @@
+import * as React from "react"
+import { useSearchParams } from "react-router-dom"
+import { readResultFilters, writeResultFilters, type ResultFilters } from "@/lib/resultFilters"
+
+// Filter state lives in the query string rather than component state. Updates
+// replace the history entry so the back button still leaves the results.
+export function useResultFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = React.useMemo(() => readResultFilters(searchParams), [searchParams])
+
+  const setFilters = React.useCallback((update: Partial<ResultFilters>) => {
+    setSearchParams(
+      (current) => writeResultFilters(current, { ...readResultFilters(current), ...update }),
+      { replace: true },
+    )
+  }, [setSearchParams])
+
+  return { filters, setFilters }
+}
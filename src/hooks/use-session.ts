@@ -0,0 +1,25 @@
+import * as React from "react"
+import type { Session } from "@supabase/supabase-js"
+import { supabase } from "@/lib/supabaseClient"
+
+// The client persists the session in localStorage and refreshes it, so a
+// returning user is signed in again as soon as getSession resolves.
+export function useSession() {
+  const [session, setSession] = React.useState<Session | null>(null)
+  const [loading, setLoading] = React.useState(true)
+
+  React.useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session)
+      setLoading(false)
+    })
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession)
+      setLoading(false)
+    })
+    return () => subscription.unsubscribe()
+  }, [])
+
+  return { session, loading }
+}
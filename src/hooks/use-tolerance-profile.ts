@@ -0,0 +1,100 @@
+import * as React from "react"
+import toast from "react-hot-toast"
+import { supabase } from "@/lib/supabaseClient"
+import { DEFAULT_TOLERANCE_PROFILE, ToleranceProfileSchema, type ToleranceProfile } from "@/lib/toleranceProfile"
+
+// One copy per account, so on a shared device the next person to sign in
+// starts from their own profile rather than the previous user's
+const storageKey = (userId: string) => `fodmap-tolerance-profile:${userId}`
+// Sliders fire on every step; save once the user lets go
+const SAVE_DELAY_MS = 600
+const LOAD_RETRY_DELAYS_MS = [1000, 3000, 10000]
+
+function readStoredProfile(userId: string | null): ToleranceProfile {
+  if (!userId) return DEFAULT_TOLERANCE_PROFILE
+  try {
+    const stored = window.localStorage.getItem(storageKey(userId))
+    const result = ToleranceProfileSchema.safeParse(stored ? JSON.parse(stored) : null)
+    return result.success ? result.data : DEFAULT_TOLERANCE_PROFILE
+  } catch {
+    return DEFAULT_TOLERANCE_PROFILE
+  }
+}
+
+// Kept in localStorage on every device, and in the tolerance_profiles table
+// for signed-in users. On sign-in the account's saved profile wins; an
+// account without one keeps its copy on this device, or starts from defaults.
+// Only the user's own changes are saved, and only once the account's profile
+// has been read, so a failed read never overwrites what the server holds.
+export function useToleranceProfile(userId: string | null) {
+  // The profile remembers whose it is, so switching accounts swaps it in the
+  // same render instead of saving one user's profile under the other's id
+  const [state, setState] = React.useState(() => ({ userId, profile: readStoredProfile(userId), dirty: false }))
+  if (state.userId !== userId) {
+    setState({ userId, profile: readStoredProfile(userId), dirty: false })
+  }
+  const { profile, dirty } = state
+  const setProfile = React.useCallback(
+    (next: ToleranceProfile) => setState((current) => ({ ...current, profile: next, dirty: true })),
+    [],
+  )
+  const [loadedUserId, setLoadedUserId] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (state.userId) window.localStorage.setItem(storageKey(state.userId), JSON.stringify(state.profile))
+  }, [state])
+
+  React.useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+    let retryTimeout: number | undefined
+
+    const load = async (attempt: number) => {
+      const { data, error } = await supabase
+        .from('tolerance_profiles')
+        .select('profile')
+        .eq('user_id', userId)
+        .maybeSingle()
+      if (cancelled) return
+      if (error) {
+        console.warn('Could not load tolerance profile:', error.message)
+        if (attempt < LOAD_RETRY_DELAYS_MS.length) {
+          retryTimeout = window.setTimeout(() => load(attempt + 1), LOAD_RETRY_DELAYS_MS[attempt])
+        } else {
+          toast.error('Your saved tolerances could not be loaded. Changes stay on this device until you reload.')
+        }
+        return
+      }
+      const saved = ToleranceProfileSchema.safeParse(data?.profile)
+      // Changes made while the profile was loading are newer than the saved one
+      if (saved.success) setState((current) => (current.dirty ? current : { ...current, profile: saved.data }))
+      setLoadedUserId(userId)
+    }
+
+    load(0)
+    return () => {
+      cancelled = true
+      window.clearTimeout(retryTimeout)
+    }
+  }, [userId])
+
+  React.useEffect(() => {
+    if (!userId || loadedUserId !== userId || !dirty) return
+    const timeout = window.setTimeout(() => {
+      supabase
+        .from('tolerance_profiles')
+        .upsert({ user_id: userId, profile, updated_at: new Date().toISOString() })
+        .then(({ error }) => {
+          if (error) {
+            console.warn('Could not save tolerance profile:', error.message)
+            return
+          }
+          // Still dirty if the user changed it again while this was saving
+          setState((current) => (current.profile === profile ? { ...current, dirty: false } : current))
+        })
+    }, SAVE_DELAY_MS)
+    return () => window.clearTimeout(timeout)
+  }, [profile, dirty, userId, loadedUserId])
+
+  return [profile, setProfile] as const
+}
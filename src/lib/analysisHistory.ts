@@ -0,0 +1,128 @@
+import { FodmapItemSchema, type FodmapItem } from '@shared/fodmap-schema'
+import { supabase } from './supabaseClient'
+import { signMenuImages } from './menuImages'
+import {
+  mergeMenuPages,
+  type MenuPage,
+  type MenuSource,
+  type MissingImageReason,
+  type SessionMenuItem,
+} from './menuSession'
+
+export interface AnalysisSummary {
+  id: string
+  createdAt: string
+  pageCount: number
+  itemCount: number
+  // First page image, when the menu was a photo or PDF
+  thumbnailUrl: string | null
+  source: MenuSource
+}
+
+export interface SavedAnalysis {
+  id: string
+  createdAt: string
+  pages: MenuPage[]
+  source: MenuSource
+  items: SessionMenuItem[]
+}
+
+interface MenuPageRow {
+  page_index: number
+  file_name: string | null
+  image_path: string | null
+  // Set once the retention job deleted the image
+  image_deleted_at: string | null
+  menu_text: string | null
+  menu_url: string | null
+  // Set when the page image matched an earlier analysis and was never uploaded
+  content_hash: string | null
+}
+
+const hasImage = (page: MenuPageRow) =>
+  page.image_path !== null || page.image_deleted_at !== null || page.content_hash !== null
+
+const getMissingImageReason = (page: MenuPageRow): MissingImageReason => {
+  if (page.image_deleted_at !== null) return 'deleted'
+  return page.image_path === null && page.content_hash !== null ? 'not-uploaded' : 'unavailable'
+}
+
+// Images win over text so a PDF analyzed from its text layer reopens as pages
+const toMenuSource = (pages: MenuPageRow[]): MenuSource => {
+  if (pages.some(hasImage)) return { kind: 'images' }
+  const urlPage = pages.find((page) => page.menu_url)
+  if (urlPage?.menu_url) return { kind: 'url', url: urlPage.menu_url }
+  return { kind: 'text', text: pages.map((page) => page.menu_text ?? '').join('\n\n') }
+}
+
+const byPageIndex = (a: MenuPageRow, b: MenuPageRow) => a.page_index - b.page_index
+
+export async function listAnalyses(): Promise<AnalysisSummary[]> {
+  const { data, error } = await supabase
+    .from('analyses')
+    .select('id, created_at, menu_pages(page_index, file_name, image_path, image_deleted_at, menu_text, menu_url, content_hash), analyzed_items(count)')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+
+  const analyses = data.map((analysis) => {
+    const pages = [...(analysis.menu_pages as MenuPageRow[])].sort(byPageIndex)
+    const [{ count }] = analysis.analyzed_items as { count: number }[]
+    return { analysis, pages, count }
+  })
+  const thumbnailPaths = analyses.flatMap(({ pages }) => pages.flatMap((page) => page.image_path ?? []).slice(0, 1))
+  const thumbnailUrls = await signMenuImages(thumbnailPaths)
+
+  return analyses.map(({ analysis, pages, count }) => {
+    const thumbnailPath = pages.find((page) => page.image_path)?.image_path
+    return {
+      id: analysis.id as string,
+      createdAt: analysis.created_at as string,
+      pageCount: pages.length,
+      itemCount: count,
+      thumbnailUrl: (thumbnailPath && thumbnailUrls.get(thumbnailPath)) || null,
+      source: toMenuSource(pages),
+    }
+  })
+}
+
+// Rebuilds the session exactly as it was shown: pages in order, then the
+// per-page items merged the same way as during the live analysis.
+export async function loadAnalysis(id: string): Promise<SavedAnalysis> {
+  const { data, error } = await supabase
+    .from('analyses')
+    .select('id, created_at, menu_pages(id, page_index, file_name, image_path, image_deleted_at, menu_text, menu_url, content_hash, analyzed_items(position, item))')
+    .eq('id', id)
+    .single()
+
+  if (error) throw error
+
+  const pageRows = [...(data.menu_pages as (MenuPageRow & { analyzed_items: { position: number; item: unknown }[] })[])]
+    .sort(byPageIndex)
+  const imagePages = pageRows.filter(hasImage)
+  const source = toMenuSource(pageRows)
+  const pagesToMerge = source.kind === 'images' ? imagePages : pageRows
+
+  const pageItems = pagesToMerge.map((page) =>
+    [...page.analyzed_items]
+      .sort((a, b) => a.position - b.position)
+      .flatMap(({ item }): FodmapItem[] => {
+        const parsed = FodmapItemSchema.safeParse(item)
+        return parsed.success ? [parsed.data] : []
+      })
+  )
+
+  const imageUrls = await signMenuImages(imagePages.flatMap((page) => page.image_path ?? []))
+
+  return {
+    id: data.id as string,
+    createdAt: data.created_at as string,
+    pages: imagePages.map((page) => ({
+      imageUrl: (page.image_path && imageUrls.get(page.image_path)) || null,
+      fileName: page.file_name ?? '',
+      missingImage: getMissingImageReason(page),
+    })),
+    source,
+    items: mergeMenuPages(pageItems),
+  }
+}
@@ -0,0 +1,19 @@
+import { AnalysisQuotaSchema, type AnalysisQuota } from '@shared/fodmap-schema'
+import { supabase } from './supabaseClient'
+
+export async function fetchAnalysisQuota(): Promise<AnalysisQuota> {
+  const { data, error } = await supabase.functions.invoke('analysis-quota', { method: 'GET' })
+  if (error) throw error
+  return AnalysisQuotaSchema.parse(data)
+}
+
+// analyze-menu reports the quota left after every call, including refused ones
+export function readQuotaHeaders(headers: Headers): AnalysisQuota | null {
+  const limit = headers.get('X-Quota-Limit')
+  const remaining = headers.get('X-Quota-Remaining')
+  const resetsAt = headers.get('X-Quota-Reset')
+  if (limit === null || remaining === null || resetsAt === null) return null
+
+  const quota = AnalysisQuotaSchema.safeParse({ limit: Number(limit), remaining: Number(remaining), resetsAt })
+  return quota.success ? quota.data : null
+}
@@ -0,0 +1,160 @@
+import {
+  AnalysisErrorSchema,
+  AnalysisStreamEventSchema,
+  toValidationIssues,
+  type AnalyzeMenuErrorCode,
+  type AnalyzeMenuRequest,
+  type AnalysisErrorBody,
+  type AnalysisQuota,
+  type FodmapItem,
+  type ValidationIssue,
+} from '@shared/fodmap-schema'
+import { readQuotaHeaders } from './analysisQuota'
+import { supabase, supabaseAnonKey, supabaseUrl } from './supabaseClient'
+
+export class AnalyzeMenuError extends Error {
+  readonly code?: string
+  readonly issues: ValidationIssue[]
+
+  constructor(message: string, options: { code?: string; issues?: ValidationIssue[] } = {}) {
+    super(message)
+    this.name = 'AnalyzeMenuError'
+    this.code = options.code
+    this.issues = options.issues ?? []
+  }
+}
+
+type ClientErrorCode = 'invalid_response' | 'incomplete_response' | 'unauthenticated'
+
+// What the user sees for each error code; the edge function's own message is
+// only shown for codes this client does not know yet.
+const ERROR_MESSAGES: Record<AnalyzeMenuErrorCode | ClientErrorCode, string> = {
+  invalid_request: 'That menu could not be sent for analysis. Check the input and try again.',
+  method_not_allowed: 'That menu could not be sent for analysis. Please reload the page and try again.',
+  unauthorized: 'Your session has expired. Please sign in again.',
+  unauthenticated: 'Please sign in to analyze menus.',
+  payload_too_large: 'That menu is too long. Try splitting it into smaller parts.',
+  image_url_not_allowed: 'Only menu photos uploaded here can be analyzed.',
+  image_not_found: 'The uploaded photo could not be found. Please upload it again.',
+  image_too_large: 'That photo is too large. Please use an image under 10 MB.',
+  unsupported_image_type: 'That file type is not supported. Use a JPEG, PNG, WebP or GIF image.',
+  unsupported_url: 'Enter a web address starting with http:// or https://.',
+  url_not_allowed: 'That web address cannot be fetched. Use the restaurant\'s public website.',
+  menu_page_unreachable: 'The restaurant\'s website could not be reached. Check the address or paste the menu text instead.',
+  menu_page_not_html: 'That address is not a web page. Upload PDFs and photos from the Upload tab instead.',
+  menu_page_too_large: 'That web page is too large to analyze. Paste the menu text instead.',
+  menu_page_empty: 'No menu text was found on that page. Paste the menu text instead.',
+  invalid_model_output: 'The menu could not be read reliably. Try a clearer photo or paste the menu text.',
+  rate_limited: 'Too many menus at once. Please wait a minute and try again.',
+  quota_exceeded: 'The daily limit for menu analyses has been reached. More are available tomorrow.',
+  cache_miss: 'This menu has not been analyzed before.',
+  invalid_response: 'The analysis came back in an unexpected format.',
+  incomplete_response: 'The analysis ended before all dishes were rated.',
+}
+
+function isKnownCode(code: string): code is keyof typeof ERROR_MESSAGES {
+  return code in ERROR_MESSAGES
+}
+
+function fromErrorBody(body: AnalysisErrorBody): AnalyzeMenuError {
+  const message = body.code && isKnownCode(body.code) ? ERROR_MESSAGES[body.code] : body.error
+  return new AnalyzeMenuError(message, body)
+}
+
+// Called as the edge function reports progress, before analyzeMenu resolves
+export interface AnalyzeMenuHandlers {
+  onQuota?: (quota: AnalysisQuota) => void
+  onReceived?: () => void
+  onDishes?: (names: string[]) => void
+  onItem?: (item: FodmapItem, index: number) => void
+}
+
+// The edge function answers non-2xx requests with an AnalysisErrorBody; fall
+// back to the HTTP status when the body is missing or not in that shape.
+async function toAnalyzeMenuError(response: Response): Promise<AnalyzeMenuError> {
+  try {
+    const body = AnalysisErrorSchema.safeParse(await response.json())
+    if (body.success) {
+      return fromErrorBody(body.data)
+    }
+  } catch (parseError: unknown) {
+    console.warn('Could not parse edge function error body:', parseError)
+  }
+  return new AnalyzeMenuError(`Failed to analyze menu (HTTP ${response.status}).`)
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>) {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += value
+    const lines = buffer.split('\n')
+    buffer = lines.pop() ?? ''
+    yield* lines.filter((line) => line.trim())
+  }
+  if (buffer.trim()) yield buffer
+}
+
+// Streams the analysis as newline-delimited events (supabase.functions.invoke
+// buffers the whole body), so dishes can be shown as soon as they are rated.
+export async function analyzeMenu(request: AnalyzeMenuRequest, handlers: AnalyzeMenuHandlers = {}): Promise<FodmapItem[]> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) {
+    throw new AnalyzeMenuError(ERROR_MESSAGES.unauthenticated, { code: 'unauthenticated' })
+  }
+  const response = await fetch(`${supabaseUrl}/functions/v1/analyze-menu`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: supabaseAnonKey,
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+  })
+
+  const quota = readQuotaHeaders(response.headers)
+  if (quota) handlers.onQuota?.(quota)
+
+  if (!response.ok || !response.body) {
+    throw await toAnalyzeMenuError(response)
+  }
+
+  const items: FodmapItem[] = []
+  for await (const line of readLines(response.body)) {
+    let json: unknown
+    try {
+      json = JSON.parse(line)
+    } catch {
+      throw new AnalyzeMenuError(ERROR_MESSAGES.invalid_response, { code: 'invalid_response' })
+    }
+
+    const event = AnalysisStreamEventSchema.safeParse(json)
+    if (!event.success) {
+      throw new AnalyzeMenuError(ERROR_MESSAGES.invalid_response, {
+        code: 'invalid_response',
+        issues: toValidationIssues(event.error),
+      })
+    }
+
+    switch (event.data.type) {
+      case 'received':
+        handlers.onReceived?.()
+        break
+      case 'dishes':
+        handlers.onDishes?.(event.data.names)
+        break
+      case 'item':
+        items.push(event.data.item)
+        handlers.onItem?.(event.data.item, event.data.index)
+        break
+      case 'error':
+        throw fromErrorBody(event.data)
+      case 'done':
+        return items
+    }
+  }
+
+  throw new AnalyzeMenuError(ERROR_MESSAGES.incomplete_response, { code: 'incomplete_response' })
+}
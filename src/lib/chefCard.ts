@@ -0,0 +1,129 @@
+import {
+  AnalysisErrorSchema,
+  ChefCardSchema,
+  FODMAP_SUBGROUPS,
+  type ChefCard,
+  type FodmapItem,
+  type FodmapSubgroup,
+  type TranslateChefCardRequest,
+} from '@shared/fodmap-schema'
+import type { Diet } from './diets'
+import type { MenuSource } from './menuSession'
+import type { Personalized, ToleranceProfile } from './toleranceProfile'
+import { supabase } from './supabaseClient'
+
+// Languages offered for the card; the menu's own language is the default
+export const CHEF_CARD_LANGUAGES = [
+  'English', 'Spanish', 'French', 'Italian', 'German', 'Portuguese', 'Dutch', 'Greek',
+  'Turkish', 'Polish', 'Japanese', 'Chinese', 'Korean', 'Thai', 'Vietnamese', 'Hindi', 'Arabic',
+] as const
+
+// Everyday ingredients a cook will recognize, for subgroups the diner avoids
+const SUBGROUP_TRIGGERS: Record<FodmapSubgroup, string[]> = {
+  'fructans': ['garlic', 'onion', 'wheat'],
+  'gos': ['beans', 'lentils', 'chickpeas'],
+  'lactose': ['milk', 'cream', 'soft cheese'],
+  'excess-fructose': ['honey', 'agave', 'mango'],
+  'sorbitol': ['stone fruit', 'sugar-free sweeteners'],
+  'mannitol': ['mushrooms', 'cauliflower'],
+}
+
+const DIET_REQUESTS: Record<Diet, string> = {
+  'gluten-free': 'I have celiac disease: no wheat, barley or rye, and please avoid cross-contact with gluten.',
+  'dairy-free': 'No milk, cream, butter or cheese, please.',
+  'nut-free': 'I am allergic to nuts: no peanuts or tree nuts, and please avoid cross-contact.',
+  'vegetarian': 'No meat or fish, including meat or fish stock.',
+  'vegan': 'No animal products at all, including eggs, dairy, honey and meat or fish stock.',
+}
+
+const joinWithOr = (words: string[]) =>
+  words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} or ${words[words.length - 1]}`
+
+// Ingredients to leave out: the ones that make this dish moderate or high for
+// the diner, plus the everyday triggers of every subgroup they avoid.
+function getTriggers(item: Personalized<FodmapItem>, profile: ToleranceProfile): string[] {
+  const fromDish = item.subgroups
+    .filter((rating) => rating.level === 'moderate' || rating.level === 'high')
+    .map((rating) => rating.ingredient.toLowerCase())
+  const fromProfile = FODMAP_SUBGROUPS
+    .filter((subgroup) => profile[subgroup].tolerance === 'avoided')
+    .flatMap((subgroup) => SUBGROUP_TRIGGERS[subgroup])
+  const triggers = [...new Set([...fromDish, ...fromProfile])]
+  // Garlic and onion hide in almost every stock and sauce, so ask regardless
+  if (triggers.length === 0 && profile.fructans.tolerance !== 'tolerated') return ['garlic', 'onion']
+  return triggers
+}
+
+// The card in English, straight from the profile and the dish, so it shows
+// instantly; translating it is a separate, optional step.
+export function buildChefCard(item: Personalized<FodmapItem>, profile: ToleranceProfile): ChefCard {
+  const triggers = getTriggers(item, profile)
+  return {
+    language: 'English',
+    greeting: 'Hello! For medical reasons I follow a strict diet (low-FODMAP).',
+    dish: item.name,
+    requests: [
+      ...(triggers.length > 0
+        ? [`Please make this dish with no ${joinWithOr(triggers)}, including in stocks, sauces, marinades and dressings.`]
+        : []),
+      ...profile.diets.map((diet) => DIET_REQUESTS[diet]),
+      'If that is not possible, please let me know. I am happy to choose something else.',
+    ],
+    alternatives: item.alternatives.slice(0, 8),
+    thanks: 'Thank you very much!',
+  }
+}
+
+// Matches menuText in TranslateChefCardRequestSchema
+const MAX_MENU_TEXT_LENGTH = 1000
+const MENU_SAMPLE_DISHES = 8
+
+// A sample of the menu as printed, for telling which language to translate
+// into: the pasted text when there is one, otherwise this dish and a few
+// others. One dish's description alone is often empty.
+export function getChefCardMenuText(item: FodmapItem, items: FodmapItem[], source: MenuSource): string {
+  if (source.kind === 'text') return source.text.slice(0, MAX_MENU_TEXT_LENGTH)
+  return [item, ...items.filter((other) => other.name !== item.name)]
+    .slice(0, MENU_SAMPLE_DISHES)
+    .map((dish) => (dish.description ? `${dish.name}: ${dish.description}` : dish.name))
+    .join('\n')
+    .slice(0, MAX_MENU_TEXT_LENGTH)
+}
+
+export class ChefCardError extends Error {
+  constructor(message: string, readonly code?: string) {
+    super(message)
+    this.name = 'ChefCardError'
+  }
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  unauthorized: 'Your session has expired. Please sign in again.',
+  rate_limited: 'Too many requests at once. Please wait a minute and try again.',
+  quota_exceeded: 'The daily limit for AI requests has been reached. The English card still works.',
+  invalid_model_output: 'The translation did not come out right. Please try again.',
+}
+
+// supabase.functions.invoke hides the error body in the response it failed on
+async function toChefCardError(error: unknown): Promise<ChefCardError> {
+  const response = (error as { context?: unknown }).context
+  if (response instanceof Response) {
+    try {
+      const body = AnalysisErrorSchema.safeParse(await response.json())
+      if (body.success) {
+        return new ChefCardError(ERROR_MESSAGES[body.data.code ?? ''] ?? body.data.error, body.data.code)
+      }
+    } catch (parseError: unknown) {
+      console.warn('Could not parse chef-card error body:', parseError)
+    }
+  }
+  return new ChefCardError('The card could not be translated. Please try again.')
+}
+
+export async function translateChefCard(request: TranslateChefCardRequest): Promise<ChefCard> {
+  const { data, error } = await supabase.functions.invoke('chef-card', { body: request })
+  if (error) throw await toChefCardError(error)
+  const card = ChefCardSchema.safeParse(data)
+  if (!card.success) throw new ChefCardError('The translation came back in an unexpected format.')
+  return card.data
+}
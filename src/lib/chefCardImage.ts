@@ -0,0 +1,84 @@
+import type { ChefCard } from '@shared/fodmap-schema'
+
+const WIDTH = 1080
+const PADDING = 80
+const TEXT_WIDTH = WIDTH - PADDING * 2
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, "Noto Sans", sans-serif'
+
+interface TextBlock {
+  text: string
+  font: string
+  color: string
+  lineHeight: number
+  // Space left before the block
+  gap: number
+  bullet?: string
+}
+
+// Breaks text into lines that fit the width. Scripts without spaces (Chinese,
+// Japanese, Thai) are broken between characters instead of words.
+function wrapText(context: CanvasRenderingContext2D, text: string, width: number): string[] {
+  const tokens = text.includes(' ') ? text.split(/(?<= )/) : [...text]
+  const lines: string[] = []
+  let line = ''
+  for (const token of tokens) {
+    if (line && context.measureText(line + token).width > width) {
+      lines.push(line.trimEnd())
+      line = token.trimStart()
+    } else {
+      line += token
+    }
+  }
+  if (line) lines.push(line.trimEnd())
+  return lines
+}
+
+function toBlocks(card: ChefCard): TextBlock[] {
+  const body = { font: `40px ${FONT_FAMILY}`, color: '#0f172a', lineHeight: 56 }
+  return [
+    { text: card.greeting, font: `600 40px ${FONT_FAMILY}`, color: '#0f172a', lineHeight: 56, gap: 0 },
+    { text: card.dish, font: `700 64px Georgia, ${FONT_FAMILY}`, color: '#1d4ed8', lineHeight: 80, gap: 48 },
+    ...card.requests.map((text, index) => ({ ...body, text, bullet: '•', gap: index === 0 ? 40 : 20 })),
+    ...card.alternatives.map((text, index) => ({ ...body, text, bullet: '→', color: '#047857', gap: index === 0 ? 40 : 16 })),
+    { text: card.thanks, font: `600 44px ${FONT_FAMILY}`, color: '#0f172a', lineHeight: 60, gap: 56 },
+  ]
+}
+
+// Draws the card as a tall PNG sized for a phone screen or a chat message.
+export async function renderChefCardImage(card: ChefCard): Promise<Blob> {
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not available')
+
+  // Measure first: the canvas height depends on how the text wraps
+  const layout = toBlocks(card).map((block) => {
+    context.font = block.font
+    const indent = block.bullet ? 56 : 0
+    return { ...block, indent, lines: wrapText(context, block.text, TEXT_WIDTH - indent) }
+  })
+  const textHeight = layout.reduce((sum, block) => sum + block.gap + block.lines.length * block.lineHeight, 0)
+  canvas.width = WIDTH
+  canvas.height = PADDING * 2 + 24 + textHeight
+
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.fillStyle = '#2563eb'
+  context.fillRect(0, 0, canvas.width, 24)
+  context.textBaseline = 'top'
+
+  let y = PADDING + 24
+  for (const block of layout) {
+    y += block.gap
+    context.font = block.font
+    context.fillStyle = block.color
+    if (block.bullet) context.fillText(block.bullet, PADDING, y)
+    for (const line of block.lines) {
+      context.fillText(line, PADDING + block.indent, y)
+      y += block.lineHeight
+    }
+  }
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not create the image'))), 'image/png')
+  })
+}
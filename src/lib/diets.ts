@@ -0,0 +1,73 @@
+import { ALLERGEN_LABELS, needsVerification, type Allergen, type FodmapItem, type FodmapLevel } from '@shared/fodmap-schema'
+
+// Diets a user can follow alongside low-FODMAP
+export const DIETS = ['gluten-free', 'dairy-free', 'nut-free', 'vegetarian', 'vegan'] as const
+export type Diet = (typeof DIETS)[number]
+
+export const DIET_LABELS: Record<Diet, string> = {
+  'gluten-free': 'Gluten-free (celiac)',
+  'dairy-free': 'Dairy-free',
+  'nut-free': 'Nut-free',
+  'vegetarian': 'Vegetarian',
+  'vegan': 'Vegan',
+}
+
+// Free-from diets rule out allergens; the others rely on the dish's diet
+// flags, with the animal allergens as a safety net when a flag is wrong.
+const ANIMAL_ALLERGENS: Allergen[] = ['fish', 'crustaceans', 'molluscs']
+
+const DIET_ALLERGENS: Record<Diet, Allergen[]> = {
+  'gluten-free': ['gluten'],
+  'dairy-free': ['milk'],
+  'nut-free': ['peanuts', 'tree-nuts'],
+  'vegetarian': ANIMAL_ALLERGENS,
+  'vegan': ['milk', 'eggs', ...ANIMAL_ALLERGENS],
+}
+
+// Why a dish does not fit the diet, or null when it does
+function getDietConflict(item: FodmapItem, diet: Diet): string | null {
+  const allergens = DIET_ALLERGENS[diet].filter((allergen) => item.allergens.includes(allergen))
+  if (allergens.length > 0) {
+    return `contains ${allergens.map((allergen) => ALLERGEN_LABELS[allergen].toLowerCase()).join(' and ')}`
+  }
+  if (diet === 'vegan' && !item.suitableDiets.includes('vegan')) return 'not vegan'
+  if (diet === 'vegetarian' && !item.suitableDiets.some((flag) => flag === 'vegetarian' || flag === 'vegan')) {
+    return 'not vegetarian'
+  }
+  return null
+}
+
+export const VERDICTS = ['suitable', 'ask', 'avoid'] as const
+export type Verdict = (typeof VERDICTS)[number]
+
+export const VERDICT_LABELS: Record<Verdict, string> = {
+  suitable: 'Good choice',
+  ask: 'Ask first',
+  avoid: 'Avoid',
+}
+
+const LEVEL_VERDICTS: Record<FodmapLevel, Verdict> = {
+  low: 'suitable',
+  moderate: 'ask',
+  unknown: 'ask',
+  high: 'avoid',
+}
+
+export interface DishVerdict {
+  verdict: Verdict
+  // One line per diet the dish breaks, e.g. "Dairy-free: contains milk"
+  conflicts: string[]
+}
+
+// One verdict from the dish's (personalized) FODMAP level and the user's
+// diets: breaking any diet means avoid, otherwise the FODMAP level decides.
+// A low rating the model is unsure of is only worth asking about.
+export function getDishVerdict(item: FodmapItem, diets: Diet[]): DishVerdict {
+  const conflicts = diets.flatMap((diet) => {
+    const conflict = getDietConflict(item, diet)
+    return conflict ? [`${DIET_LABELS[diet]}: ${conflict}`] : []
+  })
+  if (conflicts.length > 0) return { verdict: 'avoid', conflicts }
+  const verdict = LEVEL_VERDICTS[item.fodmapLevel]
+  return { verdict: verdict === 'suitable' && needsVerification(item) ? 'ask' : verdict, conflicts }
+}
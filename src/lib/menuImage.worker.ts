@@ -0,0 +1,84 @@
+import type { Libheif } from 'libheif-js/libheif-wasm/libheif-bundle.mjs'
+import { getScaledSize, JPEG_QUALITY } from './menuImageFormat'
+
+// Normalizes a menu photo off the main thread: decodes it (HEIC included),
+// applies its EXIF orientation, downscales it and re-encodes it as JPEG.
+// Re-encoding writes pixels only, so EXIF metadata such as GPS is dropped.
+
+export interface MenuImageRequest {
+  id: number
+  image: Blob
+  isHeic: boolean
+}
+
+export type MenuImageResponse =
+  | { id: number; ok: true; image: Blob; width: number; height: number }
+  | { id: number; ok: false; error: string }
+
+let libheif: Promise<Libheif> | null = null
+
+// Loaded only for the first HEIC photo the browser cannot decode itself
+const loadLibheif = () => {
+  libheif ??= import('libheif-js/libheif-wasm/libheif-bundle.mjs').then(({ default: createLibheif }) =>
+    new Promise<Libheif>((resolve) => {
+      const module = createLibheif({ onRuntimeInitialized: () => resolve(module) })
+    })
+  )
+  return libheif
+}
+
+async function decodeHeic(image: Blob): Promise<ImageBitmap> {
+  const { HeifDecoder } = await loadLibheif()
+  const images = new HeifDecoder().decode(new Uint8Array(await image.arrayBuffer()))
+  const primary = images.find((candidate) => candidate.is_primary()) ?? images[0]
+  if (!primary) throw new Error('Could not read this HEIC photo')
+
+  try {
+    const pixels = new ImageData(primary.get_width(), primary.get_height())
+    await new Promise<void>((resolve, reject) => {
+      primary.display(pixels, (result) => (result ? resolve() : reject(new Error('Could not read this HEIC photo'))))
+    })
+    return await createImageBitmap(pixels)
+  } finally {
+    images.forEach((decoded) => decoded.free())
+  }
+}
+
+// createImageBitmap applies the EXIF orientation ("from-image"), so sideways
+// phone photos come out upright. Safari decodes HEIC natively; elsewhere it
+// falls back to libheif.
+async function decode(image: Blob, isHeic: boolean): Promise<ImageBitmap> {
+  try {
+    return await createImageBitmap(image, { imageOrientation: 'from-image' })
+  } catch (decodeError: unknown) {
+    if (isHeic) return decodeHeic(image)
+    throw decodeError
+  }
+}
+
+async function normalize({ image, isHeic }: MenuImageRequest) {
+  const bitmap = await decode(image, isHeic)
+  const { width, height } = getScaledSize(bitmap.width, bitmap.height)
+
+  const canvas = new OffscreenCanvas(width, height)
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Could not prepare this photo')
+  // JPEG has no transparency; flatten transparent PNGs onto white, not black
+  context.fillStyle = '#fff'
+  context.fillRect(0, 0, width, height)
+  context.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+
+  return { image: await canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY }), width, height }
+}
+
+self.onmessage = async (event: MessageEvent<MenuImageRequest>) => {
+  const { id } = event.data
+  let response: MenuImageResponse
+  try {
+    response = { id, ok: true, ...(await normalize(event.data)) }
+  } catch (error: unknown) {
+    response = { id, ok: false, error: error instanceof Error ? error.message : 'Could not prepare this photo' }
+  }
+  self.postMessage(response)
+}
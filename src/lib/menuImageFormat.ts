@@ -0,0 +1,11 @@
+// The format every menu photo is uploaded in, shared by the worker and the
+// main-thread fallback in menuImagePreprocessing.
+
+// Long edge in pixels; vision models downscale anything larger anyway
+export const MAX_DIMENSION = 2048
+export const JPEG_QUALITY = 0.85
+
+export const getScaledSize = (width: number, height: number) => {
+  const scale = Math.min(1, MAX_DIMENSION / Math.max(width, height))
+  return { width: Math.round(width * scale), height: Math.round(height * scale) }
+}
@@ -0,0 +1,112 @@
+import type { MenuImageRequest, MenuImageResponse } from './menuImage.worker'
+import { getScaledSize, JPEG_QUALITY } from './menuImageFormat'
+
+export interface ImageSavings {
+  originalBytes: number
+  optimizedBytes: number
+}
+
+export interface PreparedMenuImage {
+  image: Blob
+  fileName: string
+  savings: ImageSavings
+}
+
+export const isHeicImage = (image: Blob, fileName: string) =>
+  /^image\/hei[cf]/.test(image.type) || /\.(heic|heif)$/i.test(fileName)
+
+let worker: Worker | null = null
+let nextRequestId = 0
+const pendingRequests = new Map<number, { resolve: (response: MenuImageResponse) => void; reject: (error: Error) => void }>()
+
+// One worker for the whole tab; it handles the photos of a session in turn
+function getWorker(): Worker {
+  if (worker) return worker
+
+  worker = new Worker(new URL('./menuImage.worker.ts', import.meta.url), { type: 'module' })
+  worker.onmessage = (event: MessageEvent<MenuImageResponse>) => {
+    pendingRequests.get(event.data.id)?.resolve(event.data)
+    pendingRequests.delete(event.data.id)
+  }
+  worker.onerror = (event) => {
+    // A worker that failed to load fails everything waiting on it; the next
+    // photo starts a fresh one.
+    pendingRequests.forEach(({ reject }) => reject(new Error(event.message || 'Could not prepare this photo')))
+    pendingRequests.clear()
+    worker?.terminate()
+    worker = null
+  }
+  return worker
+}
+
+function runWorker(request: Omit<MenuImageRequest, 'id'>): Promise<MenuImageResponse> {
+  const id = nextRequestId++
+  return new Promise((resolve, reject) => {
+    pendingRequests.set(id, { resolve, reject })
+    getWorker().postMessage({ id, ...request } satisfies MenuImageRequest)
+  })
+}
+
+// What the worker does, on the main thread, for browsers without workers or
+// OffscreenCanvas. The <img> element applies the EXIF orientation when drawn.
+async function normalizeOnMainThread(image: Blob): Promise<Blob> {
+  const url = URL.createObjectURL(image)
+  try {
+    const element = new Image()
+    element.src = url
+    await element.decode()
+
+    const { width, height } = getScaledSize(element.naturalWidth, element.naturalHeight)
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Could not prepare this photo')
+    // JPEG has no transparency; flatten transparent PNGs onto white, not black
+    context.fillStyle = '#fff'
+    context.fillRect(0, 0, width, height)
+    context.drawImage(element, 0, 0, width, height)
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not prepare this photo'))),
+        'image/jpeg',
+        JPEG_QUALITY,
+      )
+    })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+// Upright, at most 2048 px on the long edge, JPEG, without EXIF or GPS data.
+// The original is never uploaded as it is, since that would keep its EXIF.
+export async function prepareMenuImage(image: Blob, fileName: string): Promise<PreparedMenuImage> {
+  const isHeic = isHeicImage(image, fileName)
+  let optimized: Blob
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    try {
+      optimized = await normalizeOnMainThread(image)
+    } catch {
+      // Only Safari decodes HEIC without the worker's libheif
+      if (isHeic) throw new Error('This browser cannot convert HEIC photos. Export the photo as JPEG and try again.')
+      throw new Error('Could not prepare this photo')
+    }
+  } else {
+    const response = await runWorker({ image, isHeic })
+    if (!response.ok) throw new Error(response.error)
+    optimized = response.image
+  }
+
+  return {
+    image: optimized,
+    fileName: `${fileName.replace(/\.[^.]+$/, '')}.jpg`,
+    savings: { originalBytes: image.size, optimizedBytes: optimized.size },
+  }
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
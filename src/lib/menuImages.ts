@@ -0,0 +1,45 @@
+import { supabase } from './supabaseClient'
+
+// Private bucket: images are only reachable through signed URLs
+const BUCKET = 'menu-images'
+
+// The model fetches the image within moments of the request
+export const MODEL_URL_TTL_SECONDS = 10 * 60
+// Long enough to read through a result; reopening an analysis signs again
+export const DISPLAY_URL_TTL_SECONDS = 60 * 60
+
+// Storage policies only allow writes under the user's own folder
+export async function uploadMenuImage(userId: string, image: Blob, fileName: string): Promise<string> {
+  const path = `${userId}/${Date.now()}_${crypto.randomUUID().slice(0, 8)}_${fileName}`
+  const { data, error } = await supabase.storage
+    .from(BUCKET)
+    .upload(path, image, {
+      cacheControl: '3600',
+      upsert: false,
+    })
+
+  if (error) throw error
+  return data.path
+}
+
+// SHA-256 of the exact bytes that get uploaded, as lowercase hex. analyze-menu
+// checks it against the stored object before caching an analysis under it.
+export async function hashMenuImage(image: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await image.arrayBuffer())
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export async function signMenuImage(path: string, expiresIn: number): Promise<string> {
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrl(path, expiresIn)
+  if (error) throw error
+  return data.signedUrl
+}
+
+// Signed display URLs by path; paths that could not be signed are left out.
+export async function signMenuImages(paths: string[]): Promise<Map<string, string>> {
+  if (paths.length === 0) return new Map()
+
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(paths, DISPLAY_URL_TTL_SECONDS)
+  if (error) throw error
+  return new Map(data.flatMap(({ path, signedUrl }) => (path && signedUrl ? [[path, signedUrl]] : [])))
+}
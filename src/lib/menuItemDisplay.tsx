@@ -0,0 +1,63 @@
+import { CheckCircle, AlertTriangle, XCircle, AlertCircle } from "lucide-react"
+import type { RatingOrigin } from '@shared/fodmap-schema'
+import type { Verdict } from './diets'
+
+export const getFodmapColor = (level: string) => {
+  switch (level) {
+    case 'low': return 'bg-gradient-to-r from-emerald-50 to-teal-50 text-emerald-700 border-emerald-200'
+    case 'moderate': return 'bg-gradient-to-r from-amber-50 to-orange-50 text-amber-700 border-amber-200'
+    case 'high': return 'bg-gradient-to-r from-red-50 to-rose-50 text-red-700 border-red-200'
+    case 'unknown': return 'bg-gradient-to-r from-slate-50 to-gray-50 text-slate-700 border-slate-200'
+    default: return 'bg-gray-50 text-gray-700 border-gray-200'
+  }
+}
+
+export const getFodmapIcon = (level: string) => {
+  switch (level) {
+    case 'low': return <CheckCircle className="w-4 h-4" />
+    case 'moderate': return <AlertTriangle className="w-4 h-4" />
+    case 'high': return <XCircle className="w-4 h-4" />
+    case 'unknown': return <AlertCircle className="w-4 h-4" />
+    default: return null
+  }
+}
+
+export const getOriginLabel = (origin: RatingOrigin) => (
+  origin === 'database'
+    ? <span className="text-[10px] font-semibold uppercase tracking-wide text-blue-600" title="From the curated FODMAP ingredient database">Verified</span>
+    : <span className="text-[10px] font-semibold uppercase tracking-wide text-slate-400" title="Inferred by the AI model">AI estimate</span>
+)
+
+
+// Outline and fill for a dish's region on the original menu image.
+export const getFodmapHighlight = (level: string, active: boolean) => {
+  switch (level) {
+    case 'low': return active ? 'border-emerald-500 bg-emerald-400/40 ring-4 ring-emerald-400/50' : 'border-emerald-500 bg-emerald-400/15 hover:bg-emerald-400/30'
+    case 'moderate': return active ? 'border-amber-500 bg-amber-400/40 ring-4 ring-amber-400/50' : 'border-amber-500 bg-amber-400/15 hover:bg-amber-400/30'
+    case 'high': return active ? 'border-red-500 bg-red-400/40 ring-4 ring-red-400/50' : 'border-red-500 bg-red-400/15 hover:bg-red-400/30'
+    default: return active ? 'border-slate-500 bg-slate-400/40 ring-4 ring-slate-400/50' : 'border-slate-500 bg-slate-400/15 hover:bg-slate-400/30'
+  }
+}
+
+export const getMenuItemElementId = (index: number) => `menu-item-${index}`
+
+export const formatPrice = (price: number, currency: string | null) =>
+  currency
+    ? new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(price)
+    : new Intl.NumberFormat(undefined, { minimumFractionDigits: Number.isInteger(price) ? 0 : 2 }).format(price)
+
+export const getVerdictColor = (verdict: Verdict) => {
+  switch (verdict) {
+    case 'suitable': return 'bg-emerald-50 border-emerald-200 text-emerald-800'
+    case 'ask': return 'bg-amber-50 border-amber-200 text-amber-800'
+    case 'avoid': return 'bg-red-50 border-red-200 text-red-800'
+  }
+}
+
+export const getVerdictIcon = (verdict: Verdict) => {
+  switch (verdict) {
+    case 'suitable': return <CheckCircle className="w-4 h-4" />
+    case 'ask': return <AlertTriangle className="w-4 h-4" />
+    case 'avoid': return <XCircle className="w-4 h-4" />
+  }
+}
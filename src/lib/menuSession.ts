@@ -0,0 +1,144 @@
+import { maxFodmapLevel, type FodmapItem, type Region } from '@shared/fodmap-schema'
+import type { ImageSavings } from './menuImagePreprocessing'
+
+// Why a saved page has no image to show: the retention job deleted it, it
+// matched an earlier analysis and was never uploaded, or signing it failed
+export type MissingImageReason = 'deleted' | 'not-uploaded' | 'unavailable'
+
+export interface MenuPage {
+  // Signed URL, a local preview for pages answered from the cache, or null
+  // when no image is stored (deleted after the retention period, or cached)
+  imageUrl: string | null
+  fileName: string
+  missingImage?: MissingImageReason
+}
+
+// What the analysis was run on: uploaded images/PDFs, pasted text or a web page
+export type MenuSource =
+  | { kind: 'images' }
+  | { kind: 'text'; text: string }
+  | { kind: 'url'; url: string }
+
+// reading: sent to the model, which is reading the menu;
+// rating: the dish list is known and dishes are being rated one by one
+export type PageStatus = 'preparing' | 'uploading' | 'reading' | 'rating' | 'done' | 'failed'
+
+export interface PageProgress {
+  label: string
+  status: PageStatus
+  // True when the page is analyzed from its PDF text layer rather than by OCR
+  usesTextLayer: boolean
+  // Set once the model has listed the page's dishes
+  dishesTotal: number | null
+  dishesRated: number
+  // True when an earlier analysis of the same image was reused
+  fromCache: boolean
+  // Set once a photo has been resized and re-encoded for upload
+  imageSavings: ImageSavings | null
+}
+
+// Share of a page's progress reached when each stage starts; rating then
+// advances with every dish that comes back.
+const STAGE_PROGRESS: Record<PageStatus, number> = {
+  preparing: 0,
+  uploading: 0.05,
+  reading: 0.15,
+  rating: 0.4,
+  done: 1,
+  failed: 1,
+}
+
+const getPageProgress = (page: PageProgress) =>
+  page.status === 'rating' && page.dishesTotal
+    ? STAGE_PROGRESS.rating + (1 - STAGE_PROGRESS.rating) * Math.min(page.dishesRated / page.dishesTotal, 1)
+    : STAGE_PROGRESS[page.status]
+
+export const getOverallProgress = (pages: PageProgress[]) =>
+  pages.length === 0
+    ? 0
+    : Math.round((pages.reduce((sum, page) => sum + getPageProgress(page), 0) / pages.length) * 100)
+
+export const createPageProgress = (label: string, usesTextLayer = false): PageProgress => ({
+  label,
+  status: 'preparing',
+  usesTextLayer,
+  dishesTotal: null,
+  dishesRated: 0,
+  fromCache: false,
+  imageSavings: null,
+})
+
+// Where a dish appears in the session: page index and its region on that page.
+export interface ItemOccurrence {
+  page: number
+  region: Region | null
+}
+
+export interface SessionMenuItem extends FodmapItem {
+  occurrences: ItemOccurrence[]
+}
+
+// Letters and digits of any script, so "Pad Thai" and "pad-thai" match and
+// names in Greek, Cyrillic or CJK keep their meaning
+const dishKey = (name: string) =>
+  name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+
+const unionBy = <T>(items: T[], key: (item: T) => string) =>
+  [...new Map(items.map((item) => [key(item), item])).values()]
+
+// The more confident reading supplies the text; ratings take the stricter of
+// the two so a dish is never shown as safer than either page suggested.
+function mergeDuplicate(existing: SessionMenuItem, next: SessionMenuItem): SessionMenuItem {
+  const [primary, secondary] = next.confidence > existing.confidence ? [next, existing] : [existing, next]
+  const priced = primary.price !== null ? primary : secondary
+  return {
+    ...primary,
+    description: primary.description || secondary.description,
+    section: primary.section ?? secondary.section,
+    // Price, currency and portion describe one menu line, so they come as a set
+    price: priced.price,
+    currency: priced.currency,
+    portion: priced.portion,
+    fodmapLevel: maxFodmapLevel([primary.fodmapLevel, secondary.fodmapLevel]),
+    ingredients: unionBy([...primary.ingredients, ...secondary.ingredients], (i) => i.toLowerCase()),
+    subgroups: unionBy([...primary.subgroups, ...secondary.subgroups], (s) => `${s.subgroup}:${s.ingredient.toLowerCase()}`),
+    concerns: unionBy([...primary.concerns, ...secondary.concerns], (c) => c.text.toLowerCase()),
+    alternatives: unionBy([...primary.alternatives, ...secondary.alternatives], (a) => a.toLowerCase()),
+    staffQuestions: unionBy([...primary.staffQuestions, ...secondary.staffQuestions], (q) => q.toLowerCase()),
+    confidenceReasons: [...new Set([...primary.confidenceReasons, ...secondary.confidenceReasons])],
+    allergens: [...new Set([...primary.allergens, ...secondary.allergens])],
+    suitableDiets: primary.suitableDiets.filter((diet) => secondary.suitableDiets.includes(diet)),
+    occurrences: [...existing.occurrences, ...next.occurrences],
+  }
+}
+
+// The same dish on another page (e.g. a lunch and a dinner page), as opposed
+// to a second dish of that name on the same page or in another section, such
+// as a soup listed under both starters and the kids' menu.
+const isSameDish = (existing: SessionMenuItem, next: SessionMenuItem, page: number) =>
+  !existing.occurrences.some((occurrence) => occurrence.page === page) &&
+  (existing.section === null || next.section === null || dishKey(existing.section) === dishKey(next.section))
+
+// Combines per-page results into one list, merging dishes that appear on
+// several pages into a single entry.
+export function mergeMenuPages(pageResults: FodmapItem[][]): SessionMenuItem[] {
+  const merged: SessionMenuItem[] = []
+  const byName = new Map<string, number[]>()
+
+  pageResults.forEach((items, page) => {
+    for (const item of items) {
+      const sessionItem: SessionMenuItem = { ...item, occurrences: [{ page, region: item.region }] }
+      const key = dishKey(item.name)
+      const candidates = key ? byName.get(key) ?? [] : []
+      const match = candidates.find((index) => isSameDish(merged[index], sessionItem, page))
+      if (match !== undefined) {
+        merged[match] = mergeDuplicate(merged[match], sessionItem)
+      } else {
+        byName.set(key, [...candidates, merged.length])
+        merged.push(sessionItem)
+      }
+    }
+  })
+
+  return merged
+}
@@ -0,0 +1,70 @@
+// Pages with less extracted text than this are treated as scanned images and
+// sent through OCR instead.
+const MIN_TEXT_LAYER_LENGTH = 40
+
+// Rasterised pages are rendered at this width, which keeps small print legible
+// for the model without producing multi-megabyte uploads.
+const RENDER_WIDTH = 1600
+
+export interface PdfMenuPage {
+  image: Blob
+  text: string | null
+}
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')
+
+async function loadPdfJs() {
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ])
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl
+  return pdfjs
+}
+
+// Renders every page to a JPEG for display, and keeps each page's text layer
+// when it has one so analysis can skip OCR for that page.
+export async function splitPdfIntoPages(
+  file: File,
+  onPage?: (pageIndex: number, page: PdfMenuPage) => void,
+): Promise<PdfMenuPage[]> {
+  const pdfjs = await loadPdfJs()
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise
+  const pages: PdfMenuPage[] = []
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber)
+      const baseViewport = page.getViewport({ scale: 1 })
+      const viewport = page.getViewport({ scale: RENDER_WIDTH / baseViewport.width })
+
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(viewport.width)
+      canvas.height = Math.round(viewport.height)
+      const context = canvas.getContext('2d')
+      if (!context) throw new Error('Canvas is not supported in this browser')
+      await page.render({ canvasContext: context, viewport }).promise
+
+      const image = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not render PDF page'))), 'image/jpeg', 0.85)
+      })
+
+      const textContent = await page.getTextContent()
+      const text = textContent.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .trim()
+
+      const menuPage = { image, text: text.length >= MIN_TEXT_LAYER_LENGTH ? text : null }
+      pages.push(menuPage)
+      onPage?.(pageNumber - 1, menuPage)
+      page.cleanup()
+    }
+  } finally {
+    await pdf.destroy()
+  }
+
+  return pages
+}
@@ -0,0 +1,83 @@
+// A quick check of a camera shot before it is accepted. It runs on a small
+// grayscale copy of the frame, so it takes a few milliseconds on a phone.
+
+export type PhotoIssue = 'blurry' | 'glare' | 'dark'
+
+export interface PhotoQuality {
+  // Variance of the Laplacian: low when edges are soft (shake, missed focus)
+  sharpness: number
+  // Share of blown-out pixels, typically a reflection on a laminated menu
+  glare: number
+  // Mean luminance, 0 to 255
+  brightness: number
+  issues: PhotoIssue[]
+}
+
+export const PHOTO_ISSUE_MESSAGES: Record<PhotoIssue, string> = {
+  blurry: 'This shot looks blurry. Hold the phone steady and let it focus.',
+  glare: 'There is glare on the menu. Tilt it away from the light.',
+  dark: 'This shot is too dark to read. Move closer to a light.',
+}
+
+const ANALYSIS_WIDTH = 640
+const MIN_SHARPNESS = 80
+const GLARE_LUMINANCE = 250
+const MAX_GLARE = 0.02
+const MIN_BRIGHTNESS = 45
+
+// A rectangle of the source image, in its own pixels
+export interface ImageArea {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Only the area is judged, e.g. the part of the frame inside the camera's
+// framing guide, so a bright window or a blurry table around the page does
+// not decide whether the menu itself is readable.
+export function assessPhotoQuality(source: CanvasImageSource, area: ImageArea): PhotoQuality {
+  const scale = Math.min(1, ANALYSIS_WIDTH / area.width)
+  const w = Math.max(3, Math.round(area.width * scale))
+  const h = Math.max(3, Math.round(area.height * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = w
+  canvas.height = h
+  const context = canvas.getContext('2d', { willReadFrequently: true })
+  if (!context) return { sharpness: Infinity, glare: 0, brightness: 255, issues: [] }
+  context.drawImage(source, area.x, area.y, area.width, area.height, 0, 0, w, h)
+  const { data } = context.getImageData(0, 0, w, h)
+
+  const gray = new Float32Array(w * h)
+  let luminanceSum = 0
+  let blownOut = 0
+  for (let i = 0; i < gray.length; i++) {
+    const luminance = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]
+    gray[i] = luminance
+    luminanceSum += luminance
+    if (luminance >= GLARE_LUMINANCE) blownOut++
+  }
+
+  let sum = 0
+  let sumOfSquares = 0
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x
+      const laplacian = gray[i - w] + gray[i + w] + gray[i - 1] + gray[i + 1] - 4 * gray[i]
+      sum += laplacian
+      sumOfSquares += laplacian * laplacian
+    }
+  }
+  const count = (w - 2) * (h - 2)
+  const sharpness = sumOfSquares / count - (sum / count) ** 2
+  const glare = blownOut / gray.length
+  const brightness = luminanceSum / gray.length
+
+  const issues: PhotoIssue[] = []
+  if (brightness < MIN_BRIGHTNESS) issues.push('dark')
+  else if (sharpness < MIN_SHARPNESS) issues.push('blurry')
+  if (glare > MAX_GLARE) issues.push('glare')
+
+  return { sharpness, glare, brightness, issues }
+}
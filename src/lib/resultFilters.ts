@@ -0,0 +1,170 @@
+import { FODMAP_LEVELS, type FodmapItem, type FodmapLevel } from '@shared/fodmap-schema'
+import { getDishVerdict, type Diet } from './diets'
+import { personalizeItem, rankByProfile, type Personalized, type ToleranceProfile } from './toleranceProfile'
+
+export const RESULT_SORTS = ['level', 'confidence', 'menu', 'value'] as const
+export type ResultSort = (typeof RESULT_SORTS)[number]
+
+export const RESULT_SORT_LABELS: Record<ResultSort, string> = {
+  level: 'Safest first',
+  confidence: 'Most certain first',
+  menu: 'Menu order',
+  value: 'Best safe value',
+}
+
+// How the results list is narrowed down. An empty levels list shows every
+// level; maxPrice is in the menu's main currency (see getMenuCurrency).
+export interface ResultFilters {
+  levels: FodmapLevel[]
+  sort: ResultSort
+  query: string
+  maxPrice: number | null
+}
+
+export const DEFAULT_RESULT_FILTERS: ResultFilters = { levels: [], sort: 'level', query: '', maxPrice: null }
+
+const isFodmapLevel = (value: string): value is FodmapLevel => (FODMAP_LEVELS as readonly string[]).includes(value)
+const isResultSort = (value: string): value is ResultSort => (RESULT_SORTS as readonly string[]).includes(value)
+
+// Kept in the URL (?level=low,moderate&sort=confidence&q=garlic&max=15) so a
+// filtered view can be bookmarked and survives reloads; unknown values are ignored.
+export function readResultFilters(params: URLSearchParams): ResultFilters {
+  const sort = params.get('sort') ?? ''
+  const maxPrice = Number(params.get('max') || NaN)
+  return {
+    levels: (params.get('level') ?? '').split(',').filter(isFodmapLevel),
+    sort: isResultSort(sort) ? sort : DEFAULT_RESULT_FILTERS.sort,
+    query: params.get('q') ?? '',
+    maxPrice: Number.isFinite(maxPrice) && maxPrice >= 0 ? maxPrice : null,
+  }
+}
+
+export function writeResultFilters(params: URLSearchParams, filters: ResultFilters): URLSearchParams {
+  const next = new URLSearchParams(params)
+  const set = (key: string, value: string, isDefault: boolean) => (isDefault ? next.delete(key) : next.set(key, value))
+  set('level', filters.levels.join(','), filters.levels.length === 0)
+  set('sort', filters.sort, filters.sort === DEFAULT_RESULT_FILTERS.sort)
+  set('q', filters.query, filters.query.trim() === '')
+  set('max', String(filters.maxPrice), filters.maxPrice === null)
+  return next
+}
+
+const normalize = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+
+// Where a dish matches a search, for showing next to it: its name, or the
+// first ingredient or concern containing the query. Null when nothing does.
+export function findQueryMatch(item: FodmapItem, query: string): string | null {
+  const needle = normalize(query)
+  if (!needle) return ''
+  if (normalize(item.name).includes(needle)) return 'Name'
+  const ingredient = item.ingredients.find((candidate) => normalize(candidate).includes(needle))
+  if (ingredient) return `Ingredient: ${ingredient}`
+  const concern = item.concerns.find((candidate) => normalize(candidate.text).includes(needle))
+  if (concern) return `Concern: ${concern.text}`
+  return null
+}
+
+// The currency most of the menu's prices are in, null when none are priced.
+// Prices are only compared within it; a dish priced in another is unranked.
+export function getMenuCurrency(items: FodmapItem[]): string | null {
+  const counts = new Map<string, number>()
+  for (const { price, currency } of items) {
+    if (price !== null && currency !== null) counts.set(currency, (counts.get(currency) ?? 0) + 1)
+  }
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null
+}
+
+// A dish's price when it can be compared with the rest of the menu
+function comparablePrice(item: FodmapItem, currency: string | null): number | null {
+  if (item.price === null) return null
+  return item.currency === null || currency === null || item.currency === currency ? item.price : null
+}
+
+const byPrice = (currency: string | null) => (a: FodmapItem, b: FodmapItem) =>
+  (comparablePrice(a, currency) ?? Infinity) - (comparablePrice(b, currency) ?? Infinity)
+
+const breaksDiets = (item: FodmapItem, diets: Diet[]) => getDishVerdict(item, diets).conflicts.length > 0
+
+// Personalizes every dish against the profile and orders them for display.
+// "menu" keeps the order dishes were read in, page by page; "value" puts the
+// good choices for this profile and its diets first, cheapest first, then
+// the rest, with dishes that break one of the diets last.
+export function sortMenuItems<T extends FodmapItem>(
+  items: T[],
+  profile: ToleranceProfile,
+  sort: ResultSort,
+): Personalized<T>[] {
+  switch (sort) {
+    case 'level':
+      return rankByProfile(items, profile)
+    case 'confidence':
+      return items.map((item) => personalizeItem(item, profile)).sort((a, b) => b.confidence - a.confidence)
+    case 'menu':
+      return items.map((item) => personalizeItem(item, profile))
+    case 'value': {
+      const ranked = rankByProfile(items, profile)
+      const isGoodChoice = (item: FodmapItem) => getDishVerdict(item, profile.diets).verdict === 'suitable'
+      const others = ranked.filter((item) => !isGoodChoice(item))
+      return [
+        ...ranked.filter(isGoodChoice).sort(byPrice(getMenuCurrency(items))),
+        ...others.filter((item) => !breaksDiets(item, profile.diets)),
+        ...others.filter((item) => breaksDiets(item, profile.diets)),
+      ]
+    }
+  }
+}
+
+// With a budget set, dishes without a comparable price are left out too,
+// since there is no telling whether they fit it, and so are dishes that
+// break one of the user's diets: they are no option at any price.
+export function filterMenuItems<T extends FodmapItem>(items: T[], filters: ResultFilters, diets: Diet[] = []): T[] {
+  const currency = getMenuCurrency(items)
+  return items.filter((item) => {
+    const price = comparablePrice(item, currency)
+    const fitsBudget = filters.maxPrice === null ||
+      (price !== null && price <= filters.maxPrice && !breaksDiets(item, diets))
+    return (filters.levels.length === 0 || filters.levels.includes(item.fodmapLevel)) &&
+      fitsBudget &&
+      findQueryMatch(item, filters.query) !== null
+  })
+}
+
+export interface MenuSectionGroup<T> {
+  // Null for dishes the menu lists under no heading
+  heading: string | null
+  // Each dish with its index in the list that was grouped
+  entries: { item: T; index: number }[]
+  levelCounts: Record<FodmapLevel, number>
+}
+
+// Stable id for a heading, e.g. for keeping a section collapsed across re-renders
+export const getSectionKey = (heading: string | null) => (heading === null ? 'none' : `section:${normalize(heading)}`)
+
+// Groups dishes under their menu headings. Headings keep the order they were
+// first read in (menuItems, page by page), dishes keep the order given, and
+// headings differing only in case or accents ("STARTERS", "Starters") merge.
+export function groupBySection<T extends FodmapItem>(items: T[], menuItems: FodmapItem[]): MenuSectionGroup<T>[] {
+  const groups = new Map<string, MenuSectionGroup<T>>()
+  for (const { section } of menuItems) {
+    const key = getSectionKey(section)
+    if (!groups.has(key)) {
+      groups.set(key, {
+        heading: section,
+        entries: [],
+        levelCounts: Object.fromEntries(FODMAP_LEVELS.map((level) => [level, 0])) as Record<FodmapLevel, number>,
+      })
+    }
+  }
+
+  items.forEach((item, index) => {
+    const group = groups.get(getSectionKey(item.section))
+    if (!group) return
+    group.entries.push({ item, index })
+    group.levelCounts[item.fodmapLevel]++
+  })
+
+  return [...groups.values()].filter((group) => group.entries.length > 0)
+}
+
+export const hasMenuSections = (items: FodmapItem[]) => items.some((item) => item.section !== null)
@@ -0,0 +1,105 @@
+import { z } from 'zod'
+import {
+  FODMAP_SUBGROUPS,
+  maxFodmapLevel,
+  type FodmapItem,
+  type FodmapLevel,
+  type FodmapSubgroup,
+  type GroundedSubgroupRating,
+} from '@shared/fodmap-schema'
+import { DIETS } from './diets'
+
+export const TOLERANCES = ['tolerated', 'limited', 'avoided'] as const
+export type Tolerance = (typeof TOLERANCES)[number]
+
+export const TOLERANCE_LABELS: Record<Tolerance, string> = {
+  tolerated: 'Tolerated',
+  limited: 'Limited',
+  avoided: 'Avoided',
+}
+
+const SubgroupToleranceSchema = z.object({
+  tolerance: z.enum(TOLERANCES),
+  // Largest portion, in grams, the user eats of an ingredient in this subgroup
+  portionLimitGrams: z.number().positive().nullable(),
+})
+
+export const ToleranceProfileSchema = z.object({
+  ...(Object.fromEntries(FODMAP_SUBGROUPS.map((subgroup) => [subgroup, SubgroupToleranceSchema])) as Record<
+    FodmapSubgroup,
+    typeof SubgroupToleranceSchema
+  >),
+  // Diets followed alongside low-FODMAP; profiles saved before diets existed have none
+  diets: z.array(z.enum(DIETS)).default([]),
+})
+
+export type SubgroupTolerance = z.infer<typeof SubgroupToleranceSchema>
+export type ToleranceProfile = z.infer<typeof ToleranceProfileSchema>
+
+// Everything "limited" without a portion limit leaves every subgroup rating
+// as it is, so personalizeItem returns each dish at its generic level.
+export const DEFAULT_TOLERANCE_PROFILE: ToleranceProfile = {
+  ...(Object.fromEntries(
+    FODMAP_SUBGROUPS.map((subgroup) => [subgroup, { tolerance: 'limited', portionLimitGrams: null }]),
+  ) as Record<FodmapSubgroup, SubgroupTolerance>),
+  diets: [],
+}
+
+export const isDefaultProfile = (profile: ToleranceProfile) =>
+  FODMAP_SUBGROUPS.every(
+    (subgroup) => profile[subgroup].tolerance === 'limited' && profile[subgroup].portionLimitGrams === null,
+  )
+
+export interface PersonalizedSubgroupRating extends GroundedSubgroupRating {
+  genericLevel: FodmapLevel
+}
+
+export type Personalized<T extends FodmapItem> = Omit<T, 'subgroups'> & {
+  subgroups: PersonalizedSubgroupRating[]
+  genericLevel: FodmapLevel
+}
+
+function personalizeSubgroup(rating: GroundedSubgroupRating, tolerance: SubgroupTolerance): FodmapLevel {
+  switch (tolerance.tolerance) {
+    case 'tolerated':
+      return 'low'
+    case 'avoided':
+      // Even a "low" amount is worth flagging to someone avoiding the subgroup
+      return rating.level === 'low' ? 'moderate' : 'high'
+    case 'limited':
+      // A portion within the ingredient's known safe serving stays low
+      return tolerance.portionLimitGrams !== null &&
+        rating.safeServingGrams !== null &&
+        tolerance.portionLimitGrams <= rating.safeServingGrams
+        ? 'low'
+        : rating.level
+  }
+}
+
+// Re-rates a dish from its subgroup breakdown once the profile changes one of
+// its subgroup ratings. Until then the dish keeps its generic level, which
+// can differ from its highest subgroup; so does a dish without a breakdown.
+export function personalizeItem<T extends FodmapItem>(item: T, profile: ToleranceProfile): Personalized<T> {
+  const subgroups = item.subgroups.map((rating) => ({
+    ...rating,
+    level: personalizeSubgroup(rating, profile[rating.subgroup]),
+    genericLevel: rating.level,
+  }))
+  const changed = subgroups.some((rating) => rating.level !== rating.genericLevel)
+
+  return {
+    ...item,
+    subgroups,
+    fodmapLevel: changed ? maxFodmapLevel(subgroups.map((rating) => rating.level)) : item.fodmapLevel,
+    genericLevel: item.fodmapLevel,
+  }
+}
+
+// Unknown sorts between moderate and high: possibly fine, but unverified.
+const SORT_RANK: Record<FodmapLevel, number> = { low: 0, moderate: 1, unknown: 2, high: 3 }
+
+// Safest dishes first; equally rated dishes keep their menu order.
+export const rankByProfile = <T extends FodmapItem>(items: T[], profile: ToleranceProfile): Personalized<T>[] =>
+  items
+    .map((item) => personalizeItem(item, profile))
+    .sort((a, b) => SORT_RANK[a.fodmapLevel] - SORT_RANK[b.fodmapLevel])
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+import { Link, Navigate, useNavigate, useParams } from 'react-router-dom'
+import { AlertTriangle, Loader2 } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { AnalysisResults } from "@/components/AnalysisResults"
+import { ProcessingCard } from "@/components/ProcessingCard"
+import { loadAnalysis, type SavedAnalysis } from '@/lib/analysisHistory'
+import { getOverallProgress } from '@/lib/menuSession'
+import { useMenuSession } from '@/hooks/use-menu-session'
+
+// Follows the analysis running in this tab, or loads a saved one by id so
+// links from the history (or bookmarks) open directly.
+export function AnalysisPage() {
+  const { id } = useParams()
+  const session = useMenuSession()
+  const navigate = useNavigate()
+  const isLive = id !== undefined && id === session.analysisId
+  const [saved, setSaved] = useState<SavedAnalysis | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!id || isLive) return
+    let cancelled = false
+    setSaved(null)
+    setLoadError(null)
+    loadAnalysis(id)
+      .then((analysis) => {
+        if (!cancelled) setSaved(analysis)
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setLoadError(err.message || 'Could not open this analysis.')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [id, isLive])
+
+  const analyzeAnother = () => {
+    session.reset()
+    navigate('/')
+  }
+
+  if (isLive) {
+    // A failed analysis goes back to the upload page, which shows the error
+    if (session.state === 'idle') return <Navigate to="/" replace />
+
+    // Switch to the results as soon as the first dish is rated
+    const showResults = session.state === 'complete' || (session.state === 'analyzing' && session.menuItems.length > 0)
+    if (!showResults) {
+      return <ProcessingCard stage={session.state === 'uploading' ? 'uploading' : 'analyzing'} pageProgress={session.pageProgress} />
+    }
+
+    return (
+      <AnalysisResults
+        pages={session.pages}
+        source={session.menuSource}
+        items={session.menuItems}
+        progress={session.state === 'complete' ? null : getOverallProgress(session.pageProgress)}
+        onAnalyzeAnother={analyzeAnother}
+      />
+    )
+  }
+
+  if (loadError) {
+    return (
+      <Card className="max-w-2xl mx-auto bg-white/80 backdrop-blur-xl border-0 shadow-xl shadow-slate-200/50">
+        <CardContent className="p-16 text-center">
+          <AlertTriangle className="w-10 h-10 mx-auto mb-4 text-red-500" />
+          <p className="text-lg text-slate-700 mb-8">{loadError}</p>
+          <Button asChild variant="secondary">
+            <Link to="/history">Back to history</Link>
+          </Button>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  if (!saved) {
+    return <Loader2 className="w-10 h-10 mx-auto mt-24 text-blue-500 animate-spin" />
+  }
+
+  return (
+    <AnalysisResults
+      pages={saved.pages}
+      source={saved.source}
+      items={saved.items}
+      progress={null}
+      onAnalyzeAnother={analyzeAnother}
+    />
+  )
+}
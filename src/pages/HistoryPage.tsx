@@ -0,0 +1,24 @@
+import { useNavigate } from 'react-router-dom'
+import { History } from "lucide-react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { AnalysisHistory } from "@/components/AnalysisHistory"
+
+export function HistoryPage() {
+  const navigate = useNavigate()
+
+  return (
+    <Card className="max-w-2xl mx-auto bg-white/80 backdrop-blur-xl border-0 shadow-xl shadow-slate-200/50">
+      <CardHeader className="border-b border-slate-200/60">
+        <CardTitle className="flex items-center gap-3 text-xl font-serif">
+          <div className="w-10 h-10 bg-gradient-to-r from-slate-500 to-gray-600 rounded-lg flex items-center justify-center">
+            <History className="w-5 h-5 text-white" />
+          </div>
+          Your Analyses
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-8">
+        <AnalysisHistory onOpen={(id) => navigate(`/analysis/${id}`)} />
+      </CardContent>
+    </Card>
+  )
+}
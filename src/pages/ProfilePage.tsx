@@ -0,0 +1,28 @@
+import { SlidersHorizontal } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { ToleranceProfileFields } from "@/components/ToleranceProfileEditor"
+import { useAccount } from '@/hooks/use-account'
+
+export function ProfilePage() {
+  const { session, toleranceProfile, setToleranceProfile } = useAccount()
+
+  return (
+    <Card className="max-w-2xl mx-auto bg-white/80 backdrop-blur-xl border-0 shadow-xl shadow-slate-200/50">
+      <CardHeader className="border-b border-slate-200/60">
+        <CardTitle className="flex items-center gap-3 text-xl font-serif">
+          <div className="w-10 h-10 bg-gradient-to-r from-blue-500 to-indigo-600 rounded-lg flex items-center justify-center">
+            <SlidersHorizontal className="w-5 h-5 text-white" />
+          </div>
+          My FODMAP Tolerances
+        </CardTitle>
+        <CardDescription>
+          Mark what you learned during reintroduction. Every analysis is re-rated against these, including past ones.
+          Saved to {session.user.email}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-8">
+        <ToleranceProfileFields profile={toleranceProfile} onChange={setToleranceProfile} />
+      </CardContent>
+    </Card>
+  )
+}
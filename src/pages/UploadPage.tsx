@@ -0,0 +1,150 @@
+import { useRef, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { motion } from "framer-motion"
+import { AlertTriangle, Camera, FileImage, Globe, Type, Upload } from "lucide-react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { CameraCapture } from "@/components/CameraCapture"
+import { HeroHeader } from "@/components/HeroHeader"
+import { MenuTextForm, MenuUrlForm } from "@/components/MenuSourceForms"
+import { QuotaNotice } from "@/components/QuotaNotice"
+import type { AnalyzeMenuRequest } from '@shared/fodmap-schema'
+import type { MenuSource } from '@/lib/menuSession'
+import { useMenuSession } from '@/hooks/use-menu-session'
+
+export function UploadPage() {
+  const { analyzeFiles, analyzeSource, error, errorIssues, quota } = useMenuSession()
+  const quotaUsedUp = quota?.remaining === 0
+  const navigate = useNavigate()
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [cameraOpen, setCameraOpen] = useState(false)
+
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    // Clear the input so choosing the same files again still fires onChange
+    event.target.value = ''
+    startFileAnalysis(files)
+  }
+
+  const startFileAnalysis = (files: File[]) => {
+    if (files.length === 0) return
+    navigate(`/analysis/${analyzeFiles(files)}`)
+  }
+
+  const startSourceAnalysis = (request: AnalyzeMenuRequest, source: MenuSource) => {
+    navigate(`/analysis/${analyzeSource(request, source)}`)
+  }
+
+  const handleButtonClick = () => {
+    fileInputRef.current?.click();
+  };
+
+  return (
+    <>
+      <HeroHeader />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        transition={{ duration: 0.4, ease: "easeOut" }}
+      >
+        <Card className="max-w-2xl mx-auto bg-white/80 backdrop-blur-xl border-0 shadow-xl shadow-slate-200/50">
+          <CardContent className="p-16">
+            <div className="text-center">
+              <Tabs defaultValue="upload">
+                <TabsList className="mb-10">
+                  <TabsTrigger value="upload" className="gap-2"><FileImage className="w-4 h-4" />Photo or PDF</TabsTrigger>
+                  <TabsTrigger value="text" className="gap-2"><Type className="w-4 h-4" />Paste text</TabsTrigger>
+                  <TabsTrigger value="url" className="gap-2"><Globe className="w-4 h-4" />Website</TabsTrigger>
+                </TabsList>
+                <TabsContent value="upload">
+                  <div className="relative mb-8">
+                    <div className="w-32 h-32 mx-auto bg-gradient-to-br from-blue-500 to-indigo-600 rounded-3xl flex items-center justify-center shadow-2xl shadow-blue-500/25">
+                      <Upload className="w-16 h-16 text-white" />
+                    </div>
+                    <div className="absolute -top-2 -right-2 w-8 h-8 bg-gradient-to-r from-emerald-400 to-teal-500 rounded-full flex items-center justify-center">
+                      <Camera className="w-4 h-4 text-white" />
+                    </div>
+                  </div>
+                  <h2 className="text-3xl font-serif font-semibold text-slate-900 mb-4">Upload Your Menu</h2>
+                  <p className="text-lg text-slate-600 mb-12 leading-relaxed">
+                    Snap a photo or upload images of any restaurant menu to get started, one per page
+                  </p>
+                  <div className="flex flex-wrap justify-center gap-4">
+                    <Button 
+                      size="lg" 
+                      className="px-8 py-6 text-lg bg-gradient-to-r from-blue-500 to-indigo-600 hover:from-blue-600 hover:to-indigo-700 shadow-lg hover:shadow-xl transition-all duration-300 rounded-xl border-0"
+                      onClick={handleButtonClick}
+                      disabled={quotaUsedUp}
+                    >
+                      <FileImage className="w-6 h-6 mr-3" />
+                      Choose Images
+                    </Button>
+                    <Button
+                      size="lg"
+                      variant="outline"
+                      className="px-8 py-6 text-lg rounded-xl bg-white/70"
+                      onClick={() => setCameraOpen(true)}
+                      disabled={quotaUsedUp}
+                    >
+                      <Camera className="w-6 h-6 mr-3" />
+                      Use Camera
+                    </Button>
+                  </div>
+                  <CameraCapture open={cameraOpen} onOpenChange={setCameraOpen} onCapture={startFileAnalysis} />
+                  <input
+                    type="file"
+                    accept="image/jpeg,image/png,image/webp,image/gif,image/heic,image/heif,.heic,.heif,application/pdf"
+                    multiple
+                    onChange={handleImageUpload}
+                    className="hidden"
+                    ref={fileInputRef}
+                  />
+                  <p className="text-sm text-slate-500 mt-6">
+                    Supports JPG, PNG, HEIC, PDF and other image formats
+                  </p>
+                </TabsContent>
+                <TabsContent value="text">
+                  <h2 className="text-3xl font-serif font-semibold text-slate-900 mb-4">Paste Your Menu</h2>
+                  <p className="text-lg text-slate-600 mb-8 leading-relaxed">
+                    Copy the dishes from an email, a delivery app or a document
+                  </p>
+                  <MenuTextForm disabled={quotaUsedUp} onSubmit={(menuText) => startSourceAnalysis({ menuText }, { kind: 'text', text: menuText })} />
+                </TabsContent>
+                <TabsContent value="url">
+                  <h2 className="text-3xl font-serif font-semibold text-slate-900 mb-4">Analyze a Website</h2>
+                  <p className="text-lg text-slate-600 mb-8 leading-relaxed">
+                    Enter the address of the restaurant's menu page
+                  </p>
+                  <MenuUrlForm disabled={quotaUsedUp} onSubmit={(menuUrl) => startSourceAnalysis({ menuUrl }, { kind: 'url', url: menuUrl })} />
+                </TabsContent>
+              </Tabs>
+              {quota && <QuotaNotice quota={quota} />}
+              {error && (
+                <motion.div 
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="mt-6 p-4 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm"
+                >
+                  <div className="flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5" />
+                    <span>{error}</span>
+                  </div>
+                  {errorIssues.length > 0 && (
+                    <ul className="mt-2 ml-7 space-y-1 text-left text-xs text-red-600">
+                      {errorIssues.map((issue, i) => (
+                        <li key={i}>
+                          {issue.path && <code className="font-mono">{issue.path}</code>} {issue.message}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </motion.div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </motion.div>
+    </>
+  )
+}
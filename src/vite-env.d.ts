@@ -1 +1,18 @@
 /// <reference types="vite/client" />
+
+// The ES module build of libheif-js ships without type declarations
+declare module 'libheif-js/libheif-wasm/libheif-bundle.mjs' {
+  interface HeifImage {
+    get_width(): number
+    get_height(): number
+    is_primary(): boolean
+    display(target: ImageData, callback: (result: ImageData | null) => void): void
+    free(): void
+  }
+
+  interface Libheif {
+    HeifDecoder: new () => { decode(data: Uint8Array): HeifImage[] }
+  }
+
+  export default function createLibheif(options?: { onRuntimeInitialized?: () => void }): Libheif
+}
@@ -0,0 +1,13 @@
+import type { User } from "npm:@supabase/supabase-js@2";
+import { getAdminClient } from "./supabase-admin.ts";
+
+// The signed-in user behind a request, or null for the anon key or an
+// invalid/expired token.
+export async function getRequestUser(req: Request): Promise<User | null> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) return null;
+
+  const { data, error } = await getAdminClient().auth.getUser(token);
+  if (error) return null;
+  return data.user;
+}
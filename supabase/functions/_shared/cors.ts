@@ -0,0 +1,19 @@
+// Browsers may only call the functions from the app's own origins, listed
+// comma-separated in ALLOWED_ORIGINS (the local dev server by default).
+const allowedOrigins = () =>
+  (Deno.env.get("ALLOWED_ORIGINS") ?? "http://localhost:3000")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+export function corsHeadersFor(req: Request, methods: string[] = ["POST"]): Record<string, string> {
+  const origins = allowedOrigins();
+  const origin = req.headers.get("Origin");
+  return {
+    "Access-Control-Allow-Origin": origin && origins.includes(origin) ? origin : origins[0] ?? "",
+    "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+    "Access-Control-Allow-Methods": [...methods, "OPTIONS"].join(", "),
+    "Access-Control-Expose-Headers": "Retry-After, X-Quota-Limit, X-Quota-Remaining, X-Quota-Reset, X-FODMAP-KB-Version, X-Analysis-Cache",
+    "Vary": "Origin",
+  };
+}
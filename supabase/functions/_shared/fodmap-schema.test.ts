@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { AllergenListSchema, PriceSchema } from "./fodmap-schema.ts";
+
+Deno.test("PriceSchema reads decimals after either separator", () => {
+  assert.equal(PriceSchema.parse("12.50"), 12.5);
+  assert.equal(PriceSchema.parse("12,50"), 12.5);
+  assert.equal(PriceSchema.parse("$9.5"), 9.5);
+  assert.equal(PriceSchema.parse("8,00 €"), 8);
+});
+
+Deno.test("PriceSchema reads thousands separators in both styles", () => {
+  assert.equal(PriceSchema.parse("1,250.00"), 1250);
+  assert.equal(PriceSchema.parse("1.250,00"), 1250);
+  assert.equal(PriceSchema.parse("1,250"), 1250);
+  assert.equal(PriceSchema.parse("1.250"), 1250);
+  assert.equal(PriceSchema.parse("¥1,200,000"), 1200000);
+});
+
+Deno.test("PriceSchema keeps numbers and turns anything unreadable into null", () => {
+  assert.equal(PriceSchema.parse(14), 14);
+  assert.equal(PriceSchema.parse(undefined), null);
+  assert.equal(PriceSchema.parse("Market price"), null);
+  assert.equal(PriceSchema.parse("."), null);
+});
+
+Deno.test("AllergenListSchema maps aliases, including shellfish to both of its groups", () => {
+  assert.deepEqual(AllergenListSchema.parse(["Shellfish"]), ["crustaceans", "molluscs"]);
+  assert.deepEqual(AllergenListSchema.parse(["dairy", "Wheat", "molluscs", "shellfish"]), ["milk", "gluten", "molluscs", "crustaceans"]);
+  assert.deepEqual(AllergenListSchema.parse(["msg", 3, "soya"]), ["soybeans"]);
+});
@@ -0,0 +1,429 @@
+// Contract between the analyze-menu edge function and the web client. This
+// file is imported from both sides (Deno via import_map.json, Vite via the
+// @shared alias), so it must stay free of runtime-specific APIs.
+import { z } from "zod";
+
+export const FODMAP_LEVELS = ["low", "moderate", "high", "unknown"] as const;
+
+// Models are inconsistent about casing ("Low", "HIGH"), so normalise first.
+export const FodmapLevelSchema = z.preprocess(
+  (value) => (typeof value === "string" ? value.trim().toLowerCase() : value),
+  z.enum(FODMAP_LEVELS),
+);
+
+export const FODMAP_SUBGROUPS = [
+  "fructans",
+  "gos",
+  "lactose",
+  "excess-fructose",
+  "sorbitol",
+  "mannitol",
+] as const;
+
+export const FODMAP_SUBGROUP_LABELS: Record<FodmapSubgroup, string> = {
+  "fructans": "Fructans",
+  "gos": "GOS",
+  "lactose": "Lactose",
+  "excess-fructose": "Excess fructose",
+  "sorbitol": "Sorbitol",
+  "mannitol": "Mannitol",
+};
+
+const SUBGROUP_ALIASES: Record<string, FodmapSubgroup> = {
+  "fructan": "fructans",
+  "galacto-oligosaccharides": "gos",
+  "galactans": "gos",
+  "fructose": "excess-fructose",
+};
+
+export const FodmapSubgroupSchema = z.preprocess(
+  (value) => {
+    if (typeof value !== "string") return value;
+    const key = value.trim().toLowerCase().replace(/[\s_]+/g, "-");
+    return SUBGROUP_ALIASES[key] ?? key;
+  },
+  z.enum(FODMAP_SUBGROUPS),
+);
+
+// The level of one subgroup within a dish, and the ingredient responsible.
+export const SubgroupRatingSchema = z.object({
+  subgroup: FodmapSubgroupSchema,
+  level: FodmapLevelSchema,
+  ingredient: z.string().trim().min(1),
+});
+
+export const CONFIDENCE_REASONS = [
+  "illegible_text",
+  "ambiguous_dish_name",
+  "unknown_cuisine_term",
+  "hidden_sauces",
+] as const;
+
+export const CONFIDENCE_REASON_LABELS: Record<ConfidenceReason, string> = {
+  illegible_text: "Menu text is hard to read",
+  ambiguous_dish_name: "Dish name is ambiguous",
+  unknown_cuisine_term: "Unfamiliar cuisine term",
+  hidden_sauces: "May contain unlisted sauces or stocks",
+};
+
+// Below this a rating is shown as needing verification with the staff.
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+// Accepts 0-1 or a percentage, since models mix the two up.
+const ConfidenceSchema = z.preprocess(
+  (value) => (typeof value === "number" && value > 1 ? value / 100 : value),
+  z.number().min(0).max(1),
+);
+
+// Where a dish sits on the menu image, as fractions of the image's width and
+// height measured from the top-left corner.
+export const RegionSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1),
+  height: z.number().min(0).max(1),
+});
+
+// The heading a dish is listed under ("Starters", "Desserts"), as written on
+// the menu. Blank headings become null, as do dishes on menus without any.
+export const MenuSectionSchema = z.preprocess(
+  (value) => (typeof value === "string" ? value.trim() || null : value ?? null),
+  z.string().max(120).nullable(),
+);
+
+// Prices as printed, without the currency: models sometimes send "12,50" or
+// "$12.50" as a string, so the number is read out of those first.
+export const PriceSchema = z.preprocess(
+  (value) => {
+    if (typeof value !== "string") return value ?? null;
+    let digits = value.replace(/[^\d.,]/g, "");
+    // The last separator marks the decimals only when one or two digits
+    // follow it ("12,50", "1.250,00"); any other separator groups thousands
+    // ("1,250", "1.250.000").
+    const decimals = digits.match(/[.,](\d{1,2})$/);
+    digits = decimals
+      ? `${digits.slice(0, decimals.index).replace(/[.,]/g, "")}.${decimals[1]}`
+      : digits.replace(/[.,]/g, "");
+    const price = Number(digits);
+    return digits && Number.isFinite(price) ? price : null;
+  },
+  z.number().nonnegative().nullable(),
+);
+
+const CURRENCY_SYMBOLS: Record<string, string> = {
+  "$": "USD",
+  "€": "EUR",
+  "£": "GBP",
+  "¥": "JPY",
+  "₹": "INR",
+};
+
+// ISO 4217 code of a dish's price. Anything that is not one is dropped rather
+// than failing the dish, since the price is a nice-to-have.
+export const CurrencySchema = z.preprocess(
+  (value) => {
+    if (typeof value !== "string") return value ?? null;
+    const code = value.trim().toUpperCase();
+    return CURRENCY_SYMBOLS[code] ?? code;
+  },
+  z.string().regex(/^[A-Z]{3}$/).nullable().catch(null),
+);
+
+// Portion size as printed ("250 g", "6 pcs"), null when the menu gives none.
+export const PortionSchema = z.preprocess(
+  (value) => (typeof value === "number" ? String(value) : typeof value === "string" ? value.trim() || null : value ?? null),
+  z.string().max(120).nullable(),
+);
+
+// The 14 major allergens EU law requires restaurants to declare.
+export const EU_ALLERGENS = [
+  "gluten",
+  "crustaceans",
+  "eggs",
+  "fish",
+  "peanuts",
+  "soybeans",
+  "milk",
+  "tree-nuts",
+  "celery",
+  "mustard",
+  "sesame",
+  "sulphites",
+  "lupin",
+  "molluscs",
+] as const;
+
+export const ALLERGEN_LABELS: Record<Allergen, string> = {
+  "gluten": "Gluten",
+  "crustaceans": "Crustaceans",
+  "eggs": "Eggs",
+  "fish": "Fish",
+  "peanuts": "Peanuts",
+  "soybeans": "Soy",
+  "milk": "Milk",
+  "tree-nuts": "Tree nuts",
+  "celery": "Celery",
+  "mustard": "Mustard",
+  "sesame": "Sesame",
+  "sulphites": "Sulphites",
+  "lupin": "Lupin",
+  "molluscs": "Molluscs",
+};
+
+// An alias may stand for several allergens: "shellfish" covers both prawns
+// and mussels, so it counts as crustaceans and molluscs.
+const ALLERGEN_ALIASES: Record<string, Allergen | Allergen[]> = {
+  "wheat": "gluten",
+  "cereals-containing-gluten": "gluten",
+  "shellfish": ["crustaceans", "molluscs"],
+  "egg": "eggs",
+  "peanut": "peanuts",
+  "soy": "soybeans",
+  "soya": "soybeans",
+  "dairy": "milk",
+  "nuts": "tree-nuts",
+  "tree-nut": "tree-nuts",
+  "sulfites": "sulphites",
+  "sulphur-dioxide": "sulphites",
+  "sulfur-dioxide": "sulphites",
+  "mollusks": "molluscs",
+};
+
+// Diets the model judges a dish compatible with. Free-from diets (gluten,
+// dairy, nuts) follow from the allergens instead.
+export const DIET_FLAGS = ["vegetarian", "vegan"] as const;
+
+// Lenient lists: entries outside the vocabulary are dropped instead of failing
+// the whole dish, and duplicates are removed.
+const vocabularyList = <T extends string>(values: readonly T[], aliases: Record<string, T | T[]> = {}) =>
+  z.preprocess(
+    (value) => {
+      if (value == null) return [];
+      if (!Array.isArray(value)) return value;
+      const known = value
+        .filter((entry): entry is string => typeof entry === "string")
+        .flatMap((entry) => {
+          const key = entry.trim().toLowerCase().replace(/[\s_]+/g, "-");
+          return aliases[key] ?? key;
+        })
+        .filter((entry): entry is T => (values as readonly string[]).includes(entry));
+      return [...new Set(known)];
+    },
+    z.array(z.enum(values as [T, ...T[]])),
+  );
+
+export const AllergenListSchema = vocabularyList(EU_ALLERGENS, ALLERGEN_ALIASES);
+export const DietFlagListSchema = vocabularyList(DIET_FLAGS);
+
+// What the model is asked to return for each dish. The edge function grounds
+// this against the ingredient knowledge base before it reaches the client.
+export const ModelMenuItemSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().default(""),
+  fodmapLevel: FodmapLevelSchema,
+  ingredients: z.array(z.string()).default([]),
+  subgroups: z.array(SubgroupRatingSchema).default([]),
+  concerns: z.array(z.string()).default([]),
+  alternatives: z.array(z.string()).default([]),
+  confidence: ConfidenceSchema,
+  confidenceReasons: z.array(z.enum(CONFIDENCE_REASONS)).default([]),
+  staffQuestions: z.array(z.string()).default([]),
+  region: RegionSchema.nullable().default(null),
+  section: MenuSectionSchema,
+  price: PriceSchema,
+  currency: CurrencySchema,
+  portion: PortionSchema,
+  allergens: AllergenListSchema,
+  suitableDiets: DietFlagListSchema,
+});
+
+// The model lists every dish name first and then rates them one by one, so a
+// streamed response reveals how many dishes to expect before the first rating.
+// A bare array of items is accepted too, in case the model drops the wrapper.
+export const ModelMenuAnalysisSchema = z.preprocess(
+  (value) => (Array.isArray(value) ? { dishes: [], items: value } : value),
+  z.object({
+    dishes: z.array(z.string()).default([]),
+    items: z.array(ModelMenuItemSchema),
+  }),
+);
+
+// "database" when the curated ingredient table decided it, "model" when it is
+// the model's own guess for an ingredient the table does not cover.
+export const RATING_ORIGINS = ["database", "model"] as const;
+
+export const GroundedSubgroupRatingSchema = SubgroupRatingSchema.extend({
+  origin: z.enum(RATING_ORIGINS),
+  safeServingGrams: z.number().nullable().default(null),
+  reference: z.string().nullable().default(null),
+});
+
+export const ConcernSchema = z.object({
+  text: z.string(),
+  origin: z.enum(RATING_ORIGINS),
+});
+
+export const FodmapItemSchema = ModelMenuItemSchema.extend({
+  subgroups: z.array(GroundedSubgroupRatingSchema).default([]),
+  concerns: z.array(ConcernSchema).default([]),
+});
+
+export const MenuAnalysisSchema = z.array(FodmapItemSchema);
+
+export type FodmapLevel = z.infer<typeof FodmapLevelSchema>;
+export type FodmapSubgroup = (typeof FODMAP_SUBGROUPS)[number];
+export type SubgroupRating = z.infer<typeof SubgroupRatingSchema>;
+export type Region = z.infer<typeof RegionSchema>;
+export type ConfidenceReason = (typeof CONFIDENCE_REASONS)[number];
+export type Allergen = (typeof EU_ALLERGENS)[number];
+export type DietFlag = (typeof DIET_FLAGS)[number];
+export type RatingOrigin = (typeof RATING_ORIGINS)[number];
+export type ModelMenuItem = z.infer<typeof ModelMenuItemSchema>;
+export type GroundedSubgroupRating = z.infer<typeof GroundedSubgroupRatingSchema>;
+export type Concern = z.infer<typeof ConcernSchema>;
+export type FodmapItem = z.infer<typeof FodmapItemSchema>;
+
+export const needsVerification = (item: Pick<FodmapItem, "confidence">) =>
+  item.confidence < LOW_CONFIDENCE_THRESHOLD;
+
+const LEVEL_RANK: Record<FodmapLevel, number> = { unknown: -1, low: 0, moderate: 1, high: 2 };
+
+// Highest of the given levels; "unknown" only when nothing else is known.
+export const maxFodmapLevel = (levels: FodmapLevel[]): FodmapLevel =>
+  levels.reduce<FodmapLevel>(
+    (max, level) => (LEVEL_RANK[level] > LEVEL_RANK[max] ? level : max),
+    "unknown",
+  );
+
+// Where a page belongs when the analysis is saved to the user's history. The
+// client picks the analysis id so all pages of one session share it.
+export const AnalysisPageSchema = z.object({
+  analysisId: z.string().uuid(),
+  index: z.number().int().min(0),
+  fileName: z.string().max(255).optional(),
+  // Storage path of the page image in the menu-images bucket, kept instead
+  // of the (expiring) signed URL. Also set for PDF pages read from text.
+  imagePath: z.string().min(1).max(1024).optional(),
+});
+
+export type AnalysisPage = z.infer<typeof AnalysisPageSchema>;
+
+// Roughly what fits comfortably in one model call alongside the prompt.
+export const MAX_MENU_TEXT_LENGTH = 30_000;
+
+// A page is analyzed from exactly one source: its image, text that is already
+// known (pasted, or a PDF's text layer), or a restaurant web page to fetch.
+// contentHash, the SHA-256 of the page image, lets an identical image reuse an
+// earlier analysis; sent on its own it only looks the analysis up.
+export const AnalyzeMenuRequestSchema = z
+  .object({
+    imageUrl: z.string().url().optional(),
+    menuText: z.string().trim().min(1).max(MAX_MENU_TEXT_LENGTH).optional(),
+    menuUrl: z.string().url().optional(),
+    contentHash: z.string().regex(/^[0-9a-f]{64}$/, "Expected a hex SHA-256 digest").optional(),
+    // Respond with AnalysisStreamEvent lines instead of one JSON array.
+    stream: z.boolean().default(false),
+    page: AnalysisPageSchema.optional(),
+  })
+  .refine(
+    (request) => {
+      const sources = [request.imageUrl, request.menuText, request.menuUrl].filter(Boolean).length;
+      return sources === 1 || (sources === 0 && request.contentHash !== undefined);
+    },
+    { message: "Provide exactly one of imageUrl, menuText or menuUrl, or only contentHash" },
+  );
+
+// What callers send; "stream" may be left out.
+export type AnalyzeMenuRequest = z.input<typeof AnalyzeMenuRequestSchema>;
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export const toValidationIssues = (error: z.ZodError): ValidationIssue[] =>
+  error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+
+// Machine-readable reasons analyze-menu rejects or fails a request. The
+// client maps each to its own message; unknown codes fall back to "error".
+export const ANALYZE_MENU_ERROR_CODES = [
+  "invalid_request",
+  "method_not_allowed",
+  "unauthorized",
+  "payload_too_large",
+  "image_url_not_allowed",
+  "image_not_found",
+  "image_too_large",
+  "unsupported_image_type",
+  "unsupported_url",
+  "url_not_allowed",
+  "menu_page_unreachable",
+  "menu_page_not_html",
+  "menu_page_too_large",
+  "menu_page_empty",
+  "invalid_model_output",
+  "rate_limited",
+  "quota_exceeded",
+  "cache_miss",
+] as const;
+
+export type AnalyzeMenuErrorCode = (typeof ANALYZE_MENU_ERROR_CODES)[number];
+
+export const AnalysisErrorSchema = z.object({
+  error: z.string(),
+  code: z.string().optional(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+});
+
+export type AnalysisErrorBody = z.infer<typeof AnalysisErrorSchema>;
+
+// The signed-in user's daily analysis allowance, from analysis-quota and the
+// X-Quota-* headers of every analyze-menu response.
+export const AnalysisQuotaSchema = z.object({
+  limit: z.number().int().nonnegative(),
+  remaining: z.number().int().nonnegative(),
+  resetsAt: z.string().datetime(),
+});
+
+export type AnalysisQuota = z.infer<typeof AnalysisQuotaSchema>;
+
+// Events of a streamed analysis, sent as newline-delimited JSON:
+// "received" once the request is accepted, "dishes" once the menu has been
+// read, one "item" per rated dish, then "done" or "error".
+export const AnalysisStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("received") }),
+  z.object({ type: z.literal("dishes"), names: z.array(z.string()) }),
+  z.object({ type: z.literal("item"), index: z.number().int(), item: FodmapItemSchema }),
+  z.object({ type: z.literal("done"), total: z.number().int(), kbVersion: z.number().int() }),
+  AnalysisErrorSchema.extend({ type: z.literal("error") }),
+]);
+
+export type AnalysisStreamEvent = z.infer<typeof AnalysisStreamEventSchema>;
+
+// A dietary request card for kitchen staff. The client writes it in English
+// from the diner's profile and a dish; chef-card translates it line by line.
+export const ChefCardSchema = z.object({
+  // English name of the language the card is written in
+  language: z.string().trim().min(1).max(40),
+  greeting: z.string().trim().min(1).max(300),
+  // The dish name as printed on the menu, never translated
+  dish: z.string().trim().min(1).max(200),
+  requests: z.array(z.string().trim().min(1).max(300)).min(1).max(12),
+  alternatives: z.array(z.string().trim().min(1).max(300)).max(8).default([]),
+  thanks: z.string().trim().min(1).max(200),
+});
+
+export type ChefCard = z.infer<typeof ChefCardSchema>;
+
+export const TranslateChefCardRequestSchema = z.object({
+  card: ChefCardSchema,
+  // e.g. "Italian"; left out to use the menu's own language
+  language: z.string().trim().min(1).max(40).optional(),
+  // Some of the menu as printed, so the menu's language can be told
+  menuText: z.string().max(1000).default(""),
+});
+
+export type TranslateChefCardRequest = z.input<typeof TranslateChefCardRequestSchema>;
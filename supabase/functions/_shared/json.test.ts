@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { extractJson } from "./json.ts";
+
+Deno.test("extractJson returns bare JSON unchanged", () => {
+  assert.equal(extractJson('{"items": []}'), '{"items": []}');
+  assert.equal(extractJson("[1, 2]"), "[1, 2]");
+});
+
+Deno.test("extractJson unwraps a fenced code block", () => {
+  assert.equal(extractJson('```json\n{"items": [{"name": "Soup"}]}\n```'), '{"items": [{"name": "Soup"}]}');
+});
+
+Deno.test("extractJson skips prose before and after the JSON", () => {
+  const text = 'Sure! Here is the menu:\n{"dishes": ["Soup"], "items": []}\nHope this helps {or not}.';
+  assert.equal(extractJson(text), '{"dishes": ["Soup"], "items": []}');
+});
+
+Deno.test("extractJson keeps nested objects and brackets inside strings whole", () => {
+  const json = '{"items": [{"name": "Soup {of the day}", "notes": "a \\"quoted\\" ] bracket"}], "n": {"a": [1]}}';
+  assert.equal(extractJson(`Result: ${json} done`), json);
+});
+
+Deno.test("extractJson returns null without a complete JSON value", () => {
+  assert.equal(extractJson("No menu found."), null);
+  assert.equal(extractJson('{"items": [{"name": "Soup"'), null);
+});
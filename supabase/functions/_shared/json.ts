@@ -0,0 +1,27 @@
+// Returns the first complete top-level JSON array or object in the text.
+// Brackets are matched by depth (ignoring those inside strings), so nested
+// arrays and objects are kept whole, unlike a lazy regex.
+export function extractJson(text: string): string | null {
+  const start = text.search(/[[{]/);
+  if (start === -1) return null;
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === "\\") escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === "[" || char === "{") depth++;
+    else if (char === "]" || char === "}") {
+      depth--;
+      if (depth === 0) return text.slice(start, i + 1);
+    }
+  }
+  return null;
+}
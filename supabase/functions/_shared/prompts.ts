@@ -0,0 +1,4 @@
+// Openings that tell one kind of prompt from another. The functions that
+// write the prompts and the mock provider that answers them offline both
+// read them from here.
+export const CHEF_CARD_PROMPT_START = "Translate this dietary request card";
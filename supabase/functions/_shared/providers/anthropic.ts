@@ -0,0 +1,55 @@
+import Anthropic from "npm:@anthropic-ai/sdk";
+import type { CompletionOptions, ProviderMessage, VisionProvider } from "./types.ts";
+
+interface AnthropicProviderConfig {
+  model: string;
+  apiKey: string;
+}
+
+const toAnthropicMessage = (message: ProviderMessage): Anthropic.MessageParam => {
+  if (message.role === "assistant") {
+    return { role: "assistant", content: message.text };
+  }
+  return {
+    role: "user",
+    content: [
+      ...(message.imageUrls ?? []).map((url) => ({
+        type: "image" as const,
+        source: { type: "url" as const, url },
+      })),
+      { type: "text", text: message.text },
+    ],
+  };
+};
+
+export function createAnthropicProvider(config: AnthropicProviderConfig): VisionProvider {
+  const client = new Anthropic({ apiKey: config.apiKey });
+
+  return {
+    name: "anthropic",
+    model: config.model,
+    async complete(messages: ProviderMessage[], options: CompletionOptions = {}) {
+      const response = await client.messages.create({
+        model: config.model,
+        messages: messages.map(toAnthropicMessage),
+        max_tokens: options.maxTokens ?? 4096,
+      });
+      return response.content
+        .map((block) => (block.type === "text" ? block.text : ""))
+        .join("");
+    },
+    async *stream(messages: ProviderMessage[], options: CompletionOptions = {}) {
+      const stream = await client.messages.create({
+        model: config.model,
+        messages: messages.map(toAnthropicMessage),
+        max_tokens: options.maxTokens ?? 4096,
+        stream: true,
+      });
+      for await (const event of stream) {
+        if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+          yield event.delta.text;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import { createAnthropicProvider } from "./anthropic.ts";
+import { createMockProvider } from "./mock.ts";
+import { createOpenAIProvider } from "./openai.ts";
+import { ProviderConfigError, type VisionProvider } from "./types.ts";
+
+export type { CompletionOptions, ProviderMessage, VisionProvider } from "./types.ts";
+export { ProviderConfigError } from "./types.ts";
+
+export type ProviderName = "openai" | "anthropic" | "openai-compatible" | "mock";
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  "openai": "gpt-4o",
+  "anthropic": "claude-3-5-sonnet-latest",
+  "openai-compatible": "llava",
+  "mock": "mock-menu-analyzer",
+};
+
+const requireEnv = (name: string): string => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new ProviderConfigError(`${name} must be set for the selected vision provider`);
+  }
+  return value;
+};
+
+// Picks the provider from VISION_PROVIDER (default "openai"); VISION_MODEL
+// overrides that provider's default model.
+export function createVisionProvider(): VisionProvider {
+  const name = (Deno.env.get("VISION_PROVIDER") ?? "openai") as ProviderName;
+  if (!(name in DEFAULT_MODELS)) {
+    throw new ProviderConfigError(`Unknown VISION_PROVIDER "${name}"`);
+  }
+  const model = Deno.env.get("VISION_MODEL") ?? DEFAULT_MODELS[name];
+
+  switch (name) {
+    case "openai":
+      return createOpenAIProvider({ name, model, apiKey: requireEnv("OPENAI_API_KEY") });
+    case "anthropic":
+      return createAnthropicProvider({ model, apiKey: requireEnv("ANTHROPIC_API_KEY") });
+    case "openai-compatible":
+      return createOpenAIProvider({
+        name,
+        model,
+        baseURL: requireEnv("OPENAI_COMPATIBLE_BASE_URL"),
+        // Most self-hosted servers ignore the key, but the SDK requires one.
+        apiKey: Deno.env.get("OPENAI_COMPATIBLE_API_KEY") ?? "not-needed",
+      });
+    case "mock":
+      return createMockProvider();
+  }
+}
+
+let cachedProvider: VisionProvider | null = null;
+
+export function getVisionProvider(): VisionProvider {
+  cachedProvider ??= createVisionProvider();
+  return cachedProvider;
+}
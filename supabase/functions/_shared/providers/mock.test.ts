@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { buildChefCardPrompt } from "../../chef-card/prompt.ts";
+import { type ChefCard, ChefCardSchema } from "../fodmap-schema.ts";
+import { createMockProvider, MOCK_MENU_ITEMS } from "./mock.ts";
+
+Deno.test("the mock provider answers chef card translations with the card as sent", async () => {
+  const card: ChefCard = {
+    language: "English",
+    greeting: "Hello! For medical reasons I follow a strict diet (low-FODMAP).",
+    dish: "French Onion Soup",
+    requests: ["Please make this dish with no onion or garlic."],
+    alternatives: ["Choose a different starter"],
+    thanks: "Thank you very much!",
+  };
+  const reply = await createMockProvider().complete([
+    { role: "user", text: buildChefCardPrompt(card, "French", "French Onion Soup 8.00") },
+  ]);
+  assert.deepEqual(ChefCardSchema.parse(JSON.parse(reply)), card);
+});
+
+Deno.test("the mock provider answers everything else with the fixed menu", async () => {
+  const reply = JSON.parse(await createMockProvider().complete([{ role: "user", text: "Analyze this menu" }]));
+  assert.deepEqual(reply.dishes, MOCK_MENU_ITEMS.map((item) => item.name));
+});
@@ -0,0 +1,102 @@
+import { CHEF_CARD_PROMPT_START } from "../prompts.ts";
+import type { VisionProvider } from "./types.ts";
+
+// Fixed analysis returned for every menu, so the pipeline can run offline
+// and produce the same output on every run.
+export const MOCK_MENU_ITEMS = [
+  {
+    name: "Caesar Salad",
+    description: "Romaine lettuce, parmesan, croutons, caesar dressing",
+    ingredients: ["Romaine lettuce", "Parmesan", "Wheat croutons", "Garlic", "Anchovies", "Egg yolk"],
+    fodmapLevel: "moderate",
+    subgroups: [
+      { subgroup: "fructans", level: "moderate", ingredient: "Garlic" },
+      { subgroup: "fructans", level: "moderate", ingredient: "Wheat croutons" },
+      { subgroup: "lactose", level: "low", ingredient: "Parmesan" },
+    ],
+    concerns: ["Garlic in dressing", "Wheat croutons"],
+    alternatives: ["Ask for dressing on side", "Replace croutons with nuts"],
+    confidence: 0.7,
+    confidenceReasons: ["hidden_sauces"],
+    staffQuestions: ["Is the caesar dressing made in-house with garlic?"],
+    region: { x: 0.08, y: 0.18, width: 0.84, height: 0.1 },
+    section: "Starters",
+    price: 11.5,
+    currency: "EUR",
+    portion: null,
+    allergens: ["gluten", "milk", "eggs", "fish", "mustard"],
+    suitableDiets: [],
+  },
+  {
+    name: "French Onion Soup",
+    description: "Caramelised onion broth with a cheese-topped baguette crouton",
+    ingredients: ["Onion", "Beef stock", "Baguette", "Gruyère"],
+    fodmapLevel: "high",
+    subgroups: [
+      { subgroup: "fructans", level: "high", ingredient: "Onion" },
+      { subgroup: "fructans", level: "moderate", ingredient: "Wheat baguette" },
+    ],
+    concerns: ["Onion base", "Wheat baguette"],
+    alternatives: ["Choose a different starter"],
+    confidence: 0.45,
+    confidenceReasons: ["illegible_text", "hidden_sauces"],
+    staffQuestions: ["Is the soup thickened with flour?", "Could the crouton be left off?"],
+    region: { x: 0.08, y: 0.34, width: 0.84, height: 0.1 },
+    section: "Starters",
+    price: 8,
+    currency: "EUR",
+    portion: "300 ml",
+    allergens: ["gluten", "milk", "celery"],
+    suitableDiets: [],
+  },
+  {
+    name: "Grilled Salmon",
+    description: "Salmon fillet with lemon, steamed rice and green beans",
+    ingredients: ["Salmon", "Lemon", "Rice", "Green beans", "Butter"],
+    fodmapLevel: "low",
+    subgroups: [],
+    concerns: [],
+    alternatives: [],
+    confidence: 0.9,
+    confidenceReasons: [],
+    staffQuestions: [],
+    region: { x: 0.08, y: 0.5, width: 0.84, height: 0.1 },
+    section: "Mains",
+    price: 24,
+    currency: "EUR",
+    portion: "220 g",
+    allergens: ["fish", "milk"],
+    suitableDiets: [],
+  },
+];
+
+const MOCK_RESPONSE = JSON.stringify(
+  { dishes: MOCK_MENU_ITEMS.map((item) => item.name), items: MOCK_MENU_ITEMS },
+  null,
+  2,
+);
+
+// Chef card translations get the card back as sent, still in English, so
+// that function can run offline too.
+function mockChefCard(prompt: string): string {
+  return prompt.slice(prompt.lastIndexOf("Card:\n") + "Card:\n".length);
+}
+
+// Streamed in fixed-size pieces so partial-JSON handling gets exercised.
+const MOCK_CHUNK_SIZE = 48;
+
+export function createMockProvider(): VisionProvider {
+  return {
+    name: "mock",
+    model: "mock-menu-analyzer",
+    complete(messages) {
+      const prompt = messages[0]?.text ?? "";
+      return Promise.resolve(prompt.startsWith(CHEF_CARD_PROMPT_START) ? mockChefCard(prompt) : MOCK_RESPONSE);
+    },
+    async *stream() {
+      for (let i = 0; i < MOCK_RESPONSE.length; i += MOCK_CHUNK_SIZE) {
+        yield MOCK_RESPONSE.slice(i, i + MOCK_CHUNK_SIZE);
+      }
+    },
+  };
+}
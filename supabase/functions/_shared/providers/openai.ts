@@ -0,0 +1,56 @@
+import OpenAI from "npm:openai";
+import type { CompletionOptions, ProviderMessage, VisionProvider } from "./types.ts";
+
+interface OpenAIProviderConfig {
+  name: string;
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+}
+
+const toOpenAIMessage = (message: ProviderMessage): OpenAI.ChatCompletionMessageParam => {
+  if (message.role === "assistant") {
+    return { role: "assistant", content: message.text };
+  }
+  return {
+    role: "user",
+    content: [
+      { type: "text", text: message.text },
+      ...(message.imageUrls ?? []).map((url) => ({
+        type: "image_url" as const,
+        image_url: { url },
+      })),
+    ],
+  };
+};
+
+// Also used for self-hosted OpenAI-compatible servers (vLLM, Ollama, LM Studio)
+// by pointing baseURL at them.
+export function createOpenAIProvider(config: OpenAIProviderConfig): VisionProvider {
+  const client = new OpenAI({ apiKey: config.apiKey, baseURL: config.baseURL });
+
+  return {
+    name: config.name,
+    model: config.model,
+    async complete(messages: ProviderMessage[], options: CompletionOptions = {}) {
+      const response = await client.chat.completions.create({
+        model: config.model,
+        messages: messages.map(toOpenAIMessage),
+        max_tokens: options.maxTokens,
+      });
+      return response.choices[0]?.message?.content ?? "";
+    },
+    async *stream(messages: ProviderMessage[], options: CompletionOptions = {}) {
+      const stream = await client.chat.completions.create({
+        model: config.model,
+        messages: messages.map(toOpenAIMessage),
+        max_tokens: options.maxTokens,
+        stream: true,
+      });
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) yield text;
+      }
+    },
+  };
+}
@@ -0,0 +1,26 @@
+export interface ProviderMessage {
+  role: "user" | "assistant";
+  text: string;
+  imageUrls?: string[];
+}
+
+export interface CompletionOptions {
+  maxTokens?: number;
+}
+
+// A vision-capable chat model. Every provider takes the same message list and
+// returns the raw text of the model's reply, whole or as it is generated;
+// parsing happens in the caller.
+export interface VisionProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(messages: ProviderMessage[], options?: CompletionOptions): Promise<string>;
+  stream(messages: ProviderMessage[], options?: CompletionOptions): AsyncIterable<string>;
+}
+
+export class ProviderConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigError";
+  }
+}
@@ -0,0 +1,113 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { AnalysisQuota } from "./fodmap-schema.ts";
+
+export const BURST_WINDOW_SECONDS = 60;
+
+interface QuotaLimits {
+  daily: number;
+  burst: number;
+}
+
+function limitFromEnv(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name) ?? fallback);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid ${name}: ${Deno.env.get(name)}`);
+  }
+  return value;
+}
+
+// Daily limits count per UTC day, burst limits per BURST_WINDOW_SECONDS.
+// The IP limits are looser so several people behind one network can share it.
+export function getQuotaLimits(): { user: QuotaLimits; ip: QuotaLimits } {
+  return {
+    user: {
+      daily: limitFromEnv("ANALYSIS_QUOTA_USER_DAILY", 60),
+      burst: limitFromEnv("ANALYSIS_QUOTA_USER_BURST", 10),
+    },
+    ip: {
+      daily: limitFromEnv("ANALYSIS_QUOTA_IP_DAILY", 300),
+      burst: limitFromEnv("ANALYSIS_QUOTA_IP_BURST", 30),
+    },
+  };
+}
+
+// The caller's address as forwarded by the Supabase gateway
+export function getClientIp(req: Request): string | null {
+  return req.headers.get("x-forwarded-for")?.split(",")[0].trim() || null;
+}
+
+const startOfUtcDay = (now = new Date()) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+const toQuota = (limit: number, used: number): AnalysisQuota => ({
+  limit,
+  remaining: Math.max(0, limit - used),
+  resetsAt: new Date(startOfUtcDay().getTime() + 24 * 60 * 60 * 1000).toISOString(),
+});
+
+export function quotaHeaders(quota: AnalysisQuota): Record<string, string> {
+  return {
+    "X-Quota-Limit": String(quota.limit),
+    "X-Quota-Remaining": String(quota.remaining),
+    "X-Quota-Reset": quota.resetsAt,
+  };
+}
+
+export async function getAnalysisQuota(client: SupabaseClient, userId: string): Promise<AnalysisQuota> {
+  const { count, error } = await client
+    .from("analysis_usage")
+    .select("id", { count: "exact", head: true })
+    .eq("subject", `user:${userId}`)
+    .gte("created_at", startOfUtcDay().toISOString());
+  if (error) throw error;
+  return toQuota(getQuotaLimits().user.daily, count ?? 0);
+}
+
+export type QuotaResult =
+  | { allowed: true; quota: AnalysisQuota }
+  | { allowed: false; reason: "daily" | "burst"; retryAfterSeconds: number; quota: AnalysisQuota };
+
+interface QuotaRow {
+  subject: string;
+  daily_used: number;
+  daily_exceeded: boolean;
+  retry_after_seconds: number;
+}
+
+// Records one analysis for the user and their IP, or refuses it without
+// recording anything if either is over its daily or burst limit.
+export async function consumeAnalysisQuota(
+  client: SupabaseClient,
+  userId: string,
+  ip: string | null,
+): Promise<QuotaResult> {
+  const limits = getQuotaLimits();
+  // Always user first, then IP: the database locks subjects in this order
+  const subjects = [
+    { subject: `user:${userId}`, ...limits.user },
+    ...(ip ? [{ subject: `ip:${ip}`, ...limits.ip }] : []),
+  ];
+
+  const { data, error } = await client.rpc("consume_analysis_quota", {
+    quota_subjects: subjects.map(({ subject }) => subject),
+    daily_limits: subjects.map(({ daily }) => daily),
+    burst_limits: subjects.map(({ burst }) => burst),
+    burst_window_seconds: BURST_WINDOW_SECONDS,
+  });
+  if (error) throw error;
+
+  const rows = data as QuotaRow[];
+  const userRow = rows.find((row) => row.subject === subjects[0].subject);
+  const blocked = rows.filter((row) => row.retry_after_seconds > 0);
+  const usedBefore = userRow?.daily_used ?? 0;
+
+  if (blocked.length === 0) {
+    return { allowed: true, quota: toQuota(limits.user.daily, usedBefore + 1) };
+  }
+  return {
+    allowed: false,
+    reason: blocked.some((row) => row.daily_exceeded) ? "daily" : "burst",
+    retryAfterSeconds: Math.max(...blocked.map((row) => row.retry_after_seconds)),
+    quota: toQuota(limits.user.daily, usedBefore),
+  };
+}
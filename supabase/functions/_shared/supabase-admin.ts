@@ -0,0 +1,14 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+let adminClient: SupabaseClient | null = null;
+
+// Service-role client for server-side reads and writes. SUPABASE_URL and
+// SUPABASE_SERVICE_ROLE_KEY are injected into every deployed edge function.
+export function getAdminClient(): SupabaseClient {
+  adminClient ??= createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } },
+  );
+  return adminClient;
+}
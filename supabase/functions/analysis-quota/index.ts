@@ -0,0 +1,35 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { getRequestUser } from "../_shared/auth.ts";
+import { corsHeadersFor } from "../_shared/cors.ts";
+import { getAnalysisQuota } from "../_shared/quota.ts";
+import { getAdminClient } from "../_shared/supabase-admin.ts";
+
+// How many analyses the signed-in user has left today, so the upload screen
+// can show it before the first analysis of a visit.
+serve(async (req) => {
+  const corsHeaders = corsHeadersFor(req, ["GET"]);
+  const json = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
+    });
+
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "GET") {
+    return json({ error: "Use GET", code: "method_not_allowed" }, 405);
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return json({ error: "Sign in to see your quota", code: "unauthorized" }, 401);
+  }
+
+  try {
+    return json(await getAnalysisQuota(getAdminClient(), user.id), 200);
+  } catch (error) {
+    console.error("Error reading quota:", error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
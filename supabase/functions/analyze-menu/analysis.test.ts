@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import type { AnalysisStreamEvent } from "../_shared/fodmap-schema.ts";
+import { MOCK_MENU_ITEMS } from "../_shared/providers/mock.ts";
+import type { ProviderMessage, VisionProvider } from "../_shared/providers/index.ts";
+import { analyzeMenu, ModelOutputError, streamMenuAnalysis } from "./analysis.ts";
+
+// Without Supabase settings the knowledge base cannot load, so every rating
+// stays the model's own and only the parsing and repair logic is exercised.
+Deno.env.delete("SUPABASE_URL");
+// The failure paths log on purpose; keep the output to the test results
+console.warn = () => {};
+console.error = () => {};
+
+const VALID_RESPONSE = JSON.stringify({ dishes: MOCK_MENU_ITEMS.map((item) => item.name), items: MOCK_MENU_ITEMS });
+const MESSAGES: ProviderMessage[] = [{ role: "user", text: "Analyze this menu" }];
+
+// Answers complete() calls with the given replies in turn and streams the
+// first one, recording every request it gets.
+function stubProvider(replies: string[]) {
+  const completeCalls: ProviderMessage[][] = [];
+  const provider: VisionProvider = {
+    name: "stub",
+    model: "stub-model",
+    complete(messages) {
+      completeCalls.push(messages);
+      const reply = replies.shift();
+      if (reply === undefined) throw new Error("Unexpected provider call");
+      return Promise.resolve(reply);
+    },
+    async *stream() {
+      const reply = replies.shift();
+      if (reply === undefined) throw new Error("Unexpected provider call");
+      yield reply;
+    },
+  };
+  return { provider, completeCalls };
+}
+
+Deno.test("analyzeMenu reads JSON wrapped in a code fence and prose", async () => {
+  const { provider, completeCalls } = stubProvider([
+    `Here is the analysis you asked for:\n\`\`\`json\n${VALID_RESPONSE}\n\`\`\`\nLet me know if you need more.`,
+  ]);
+  const { items } = await analyzeMenu(provider, MESSAGES);
+  assert.deepEqual(items.map((item) => item.name), MOCK_MENU_ITEMS.map((item) => item.name));
+  assert.equal(completeCalls.length, 1);
+});
+
+Deno.test("analyzeMenu asks for exactly one repair when the answer is invalid", async () => {
+  const { provider, completeCalls } = stubProvider(['{"items": [{"name": "Caesar Salad"', VALID_RESPONSE]);
+  const { items } = await analyzeMenu(provider, MESSAGES);
+  assert.equal(items.length, MOCK_MENU_ITEMS.length);
+
+  assert.equal(completeCalls.length, 2);
+  const repair = completeCalls[1];
+  assert.deepEqual(repair.slice(0, 2), [...MESSAGES, { role: "assistant", text: '{"items": [{"name": "Caesar Salad"' }]);
+  assert.match(repair[2].text, /did not match the required format/);
+});
+
+Deno.test("analyzeMenu names the failing fields in the repair request", async () => {
+  const invalid = JSON.stringify({ items: [{ ...MOCK_MENU_ITEMS[0], fodmapLevel: "extreme" }] });
+  const { provider, completeCalls } = stubProvider([invalid, VALID_RESPONSE]);
+  await analyzeMenu(provider, MESSAGES);
+  assert.match(completeCalls[1][2].text, /items\.0\.fodmapLevel/);
+});
+
+Deno.test("analyzeMenu fails with ModelOutputError when the repair is invalid too", async () => {
+  const { provider, completeCalls } = stubProvider(["I could not read this menu.", '{"items": "none"}']);
+  const error = await analyzeMenu(provider, MESSAGES).then(() => null, (e) => e);
+  assert.ok(error instanceof ModelOutputError);
+  assert.deepEqual(error.issues.map((issue) => issue.path), ["items"]);
+  assert.equal(completeCalls.length, 2);
+});
+
+Deno.test("streamMenuAnalysis repairs only the dishes that failed, in one call", async () => {
+  const broken = { ...MOCK_MENU_ITEMS[1], confidence: "high" };
+  const { provider, completeCalls } = stubProvider([
+    JSON.stringify({ dishes: [], items: [MOCK_MENU_ITEMS[0], broken, MOCK_MENU_ITEMS[2]] }),
+    JSON.stringify([MOCK_MENU_ITEMS[1]]),
+  ]);
+  const events: AnalysisStreamEvent[] = [];
+  const { items } = await streamMenuAnalysis(provider, MESSAGES, (event) => events.push(event));
+
+  assert.deepEqual(items.map((item) => item.name), ["Caesar Salad", "Grilled Salmon", "French Onion Soup"]);
+  assert.deepEqual(events.map((event) => event.type), ["received", "dishes", "item", "item", "item", "done"]);
+  assert.equal(completeCalls.length, 1);
+  assert.match(completeCalls[0].at(-1)!.text, /"confidence":"high"/);
+});
+
+Deno.test("streamMenuAnalysis drops dishes whose repair fails too", async () => {
+  const broken = { ...MOCK_MENU_ITEMS[1], confidence: "high" };
+  const { provider, completeCalls } = stubProvider([
+    JSON.stringify({ dishes: [], items: [MOCK_MENU_ITEMS[0], broken] }),
+    "Sorry, I cannot fix that.",
+  ]);
+  const events: AnalysisStreamEvent[] = [];
+  const { items } = await streamMenuAnalysis(provider, MESSAGES, (event) => events.push(event));
+
+  assert.deepEqual(items.map((item) => item.name), ["Caesar Salad"]);
+  assert.deepEqual(events.at(-1), { type: "done", total: 1, kbVersion: 0 });
+  assert.equal(completeCalls.length, 1);
+});
+
+Deno.test("streamMenuAnalysis fails with ModelOutputError when nothing is usable after a repair", async () => {
+  const { provider, completeCalls } = stubProvider(["No menu here.", "Still no menu."]);
+  const events: AnalysisStreamEvent[] = [];
+  const error = await streamMenuAnalysis(provider, MESSAGES, (event) => events.push(event)).then(() => null, (e) => e);
+  assert.ok(error instanceof ModelOutputError);
+  assert.equal(completeCalls.length, 1);
+  assert.deepEqual(events.map((event) => event.type), ["received"]);
+});
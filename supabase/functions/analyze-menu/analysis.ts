@@ -0,0 +1,152 @@
+import {
+  type AnalysisStreamEvent,
+  type FodmapItem,
+  type ModelMenuItem,
+  ModelMenuItemSchema,
+  toValidationIssues,
+  type ValidationIssue,
+} from "../_shared/fodmap-schema.ts";
+import type { ProviderMessage, VisionProvider } from "../_shared/providers/index.ts";
+import { getAdminClient } from "../_shared/supabase-admin.ts";
+import { applyKnowledgeBase, type KnowledgeBase, loadKnowledgeBase } from "./knowledge-base.ts";
+import { type ParseResult, parseMenuAnalysis } from "./parse.ts";
+import { buildItemRepairPrompt, buildRepairPrompt, MAX_OUTPUT_TOKENS } from "./prompt.ts";
+import { MenuStreamParser } from "./stream-parser.ts";
+
+export class ModelOutputError extends Error {
+  constructor(public issues: ValidationIssue[]) {
+    super("AI response did not match the menu analysis format");
+  }
+}
+
+// Without the knowledge base every rating is the model's own; that is
+// still useful, so a lookup failure degrades rather than fails the request.
+async function loadKnowledgeBaseOrNull(): Promise<KnowledgeBase | null> {
+  try {
+    return await loadKnowledgeBase(getAdminClient());
+  } catch (e) {
+    console.warn("Could not load FODMAP knowledge base, using model ratings only:", e);
+    return null;
+  }
+}
+
+// One repair round: show the model its answer and what was wrong with it.
+async function parseWithRepair(
+  provider: VisionProvider,
+  messages: ProviderMessage[],
+  aiResponse: string,
+): Promise<ParseResult> {
+  const result = parseMenuAnalysis(aiResponse);
+  if (result.success) return result;
+
+  console.warn("AI response failed validation, asking for a repair:", result.issues);
+  const repairedResponse = await provider.complete(
+    [
+      ...messages,
+      { role: "assistant", text: aiResponse },
+      { role: "user", text: buildRepairPrompt(result.issues) },
+    ],
+    { maxTokens: MAX_OUTPUT_TOKENS },
+  );
+  return parseMenuAnalysis(repairedResponse);
+}
+
+export async function analyzeMenu(
+  provider: VisionProvider,
+  messages: ProviderMessage[],
+): Promise<{ items: FodmapItem[]; kbVersion: number }> {
+  const knowledgeBase = loadKnowledgeBaseOrNull();
+  const aiResponse = await provider.complete(messages, { maxTokens: MAX_OUTPUT_TOKENS });
+  if (!aiResponse) {
+    throw new Error("Failed to get response from AI");
+  }
+
+  const result = await parseWithRepair(provider, messages, aiResponse);
+  if (!result.success) {
+    console.error("Repaired AI response still failed validation:", result.issues);
+    throw new ModelOutputError(result.issues);
+  }
+
+  const kb = await knowledgeBase;
+  return {
+    items: result.items.map((item) => applyKnowledgeBase(item, kb)),
+    kbVersion: kb?.version ?? 0,
+  };
+}
+
+// Emits the dish list as soon as the model has written it, then every dish
+// the moment its object closes, grounded and validated one at a time. Dishes
+// that fail validation are collected and repaired in a single call at the end.
+export async function streamMenuAnalysis(
+  provider: VisionProvider,
+  messages: ProviderMessage[],
+  send: (event: AnalysisStreamEvent) => void,
+): Promise<{ items: FodmapItem[]; kbVersion: number }> {
+  send({ type: "received" });
+
+  const kb = await loadKnowledgeBaseOrNull();
+  const parser = new MenuStreamParser();
+  const invalidItems: { raw: string; issues: ValidationIssue[] }[] = [];
+  const items: FodmapItem[] = [];
+  let aiResponse = "";
+
+  const emitItem = (item: ModelMenuItem) => {
+    const grounded = applyKnowledgeBase(item, kb);
+    send({ type: "item", index: items.length, item: grounded });
+    items.push(grounded);
+  };
+
+  for await (const chunk of provider.stream(messages, { maxTokens: MAX_OUTPUT_TOKENS })) {
+    aiResponse += chunk;
+    for (const event of parser.push(chunk)) {
+      if (event.type === "dishes") {
+        const names = Array.isArray(event.value) ? event.value.filter((name) => typeof name === "string") : [];
+        send({ type: "dishes", names });
+        continue;
+      }
+      const item = ModelMenuItemSchema.safeParse(event.value);
+      if (item.success) emitItem(item.data);
+      else invalidItems.push({ raw: event.raw, issues: toValidationIssues(item.error) });
+    }
+  }
+
+  if (items.length === 0 && invalidItems.length === 0) {
+    // Nothing recognizable went past while streaming (e.g. an unexpected
+    // wrapper key), so fall back to reading the answer as a whole.
+    const result = await parseWithRepair(provider, messages, aiResponse);
+    if (!result.success) {
+      console.error("Repaired AI response still failed validation:", result.issues);
+      throw new ModelOutputError(result.issues);
+    }
+    result.items.forEach(emitItem);
+  } else if (invalidItems.length > 0) {
+    console.warn("Some streamed dishes failed validation, asking for a repair:", invalidItems);
+    const repairedResponse = await provider.complete(
+      [
+        ...messages,
+        { role: "assistant", text: aiResponse },
+        { role: "user", text: buildItemRepairPrompt(invalidItems) },
+      ],
+      { maxTokens: MAX_OUTPUT_TOKENS },
+    );
+    const result = parseMenuAnalysis(repairedResponse);
+    if (result.success) result.items.forEach(emitItem);
+    else console.error("Repaired dishes still failed validation, dropping them:", result.issues);
+  }
+
+  const kbVersion = kb?.version ?? 0;
+  send({ type: "done", total: items.length, kbVersion });
+  return { items, kbVersion };
+}
+
+// Sends a finished analysis (e.g. from the cache) as the same events a live
+// one would produce, so the client handles both alike.
+export function replayMenuAnalysis(
+  { items, kbVersion }: { items: FodmapItem[]; kbVersion: number },
+  send: (event: AnalysisStreamEvent) => void,
+): void {
+  send({ type: "received" });
+  send({ type: "dishes", names: items.map((item) => item.name) });
+  items.forEach((item, index) => send({ type: "item", index, item }));
+  send({ type: "done", total: items.length, kbVersion });
+}
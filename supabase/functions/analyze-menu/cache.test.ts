@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { createClient } from "npm:@supabase/supabase-js@2";
+import { FodmapItemSchema } from "../_shared/fodmap-schema.ts";
+import { MOCK_MENU_ITEMS } from "../_shared/providers/mock.ts";
+import { lookupCachedAnalysis, sha256Hex, storeCachedAnalysis } from "./cache.ts";
+import { PROMPT_VERSION } from "./prompt.ts";
+
+// The mismatch path warns on purpose; keep the output to the test results
+console.warn = () => {};
+
+const KB_VERSION = 4;
+const USER_ID = "00000000-0000-4000-8000-000000000001";
+const IMAGE_PATH = `${USER_ID}/menu.jpg`;
+const IMAGE_BYTES = new TextEncoder().encode("menu photo bytes");
+const IMAGE_HASH = await sha256Hex(IMAGE_BYTES.buffer);
+const ITEMS = MOCK_MENU_ITEMS.map((item) => FodmapItemSchema.parse({ ...item, subgroups: [], concerns: [] }));
+
+// Stands in for PostgREST and storage: one knowledge base row for the current
+// version, the analysis_cache table in memory and a single uploaded image.
+type CacheRow = { content_hash: string; prompt_version: number; kb_version: number; items: unknown };
+const cacheRows: CacheRow[] = [];
+const server = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+  const url = new URL(req.url);
+  if (url.pathname === "/rest/v1/fodmap_ingredients_current") {
+    return Response.json([
+      { kb_version: KB_VERSION, ingredient: "garlic", synonyms: [], subgroup: "fructans", level: "high", safe_serving_grams: null, source: "Test table" },
+    ]);
+  }
+  if (url.pathname === "/rest/v1/analysis_cache" && req.method === "GET") {
+    const matches = (column: keyof CacheRow, row: CacheRow) => url.searchParams.get(column) === `eq.${row[column]}`;
+    return Response.json(
+      cacheRows
+        .filter((row) => matches("content_hash", row) && matches("prompt_version", row) && matches("kb_version", row))
+        .map(({ items }) => ({ items })),
+    );
+  }
+  if (url.pathname === "/rest/v1/analysis_cache" && req.method === "POST") {
+    cacheRows.push(await req.json());
+    return new Response(null, { status: 201 });
+  }
+  if (url.pathname === `/storage/v1/object/menu-images/${IMAGE_PATH}`) {
+    return new Response(IMAGE_BYTES, { headers: { "Content-Type": "image/jpeg" } });
+  }
+  return Response.json({ message: `Unexpected request to ${url.pathname}` }, { status: 404 });
+});
+server.unref();
+
+const client = createClient(`http://localhost:${server.addr.port}`, "test-service-role-key", {
+  auth: { persistSession: false },
+});
+
+Deno.test("storeCachedAnalysis stores a miss once the hash matches the upload, which then hits", async () => {
+  cacheRows.length = 0;
+  assert.equal(await lookupCachedAnalysis(client, IMAGE_HASH), null);
+
+  await storeCachedAnalysis(client, { contentHash: IMAGE_HASH, imagePath: IMAGE_PATH, items: ITEMS, kbVersion: KB_VERSION });
+  assert.deepEqual(cacheRows, [
+    { content_hash: IMAGE_HASH, prompt_version: PROMPT_VERSION, kb_version: KB_VERSION, items: ITEMS },
+  ]);
+
+  assert.deepEqual(await lookupCachedAnalysis(client, IMAGE_HASH), { items: ITEMS, kbVersion: KB_VERSION });
+});
+
+Deno.test("storeCachedAnalysis skips a hash that does not match the upload", async () => {
+  cacheRows.length = 0;
+  const plantedHash = "0".repeat(64);
+  await storeCachedAnalysis(client, { contentHash: plantedHash, imagePath: IMAGE_PATH, items: ITEMS, kbVersion: KB_VERSION });
+  assert.deepEqual(cacheRows, []);
+  assert.equal(await lookupCachedAnalysis(client, plantedHash), null);
+});
+
+Deno.test("lookupCachedAnalysis misses analyses from an older prompt or knowledge base", async () => {
+  cacheRows.length = 0;
+  cacheRows.push(
+    { content_hash: IMAGE_HASH, prompt_version: PROMPT_VERSION, kb_version: KB_VERSION - 1, items: ITEMS },
+    { content_hash: IMAGE_HASH, prompt_version: PROMPT_VERSION - 1, kb_version: KB_VERSION, items: ITEMS },
+  );
+  assert.equal(await lookupCachedAnalysis(client, IMAGE_HASH), null);
+});
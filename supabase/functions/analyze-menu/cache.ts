@@ -0,0 +1,68 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { type FodmapItem, FodmapItemSchema } from "../_shared/fodmap-schema.ts";
+import { loadKnowledgeBase } from "./knowledge-base.ts";
+import { PROMPT_VERSION } from "./prompt.ts";
+
+const BUCKET = "menu-images";
+
+export async function sha256Hex(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// A cached analysis only counts if it was made with the current prompt and
+// knowledge base; anything older is a miss and gets analyzed again.
+export async function lookupCachedAnalysis(
+  client: SupabaseClient,
+  contentHash: string,
+): Promise<{ items: FodmapItem[]; kbVersion: number } | null> {
+  let kbVersion: number;
+  try {
+    kbVersion = (await loadKnowledgeBase(client)).version;
+  } catch (e) {
+    console.warn("Could not load FODMAP knowledge base, skipping the analysis cache:", e);
+    return null;
+  }
+
+  const { data, error } = await client
+    .from("analysis_cache")
+    .select("items")
+    .eq("content_hash", contentHash)
+    .eq("prompt_version", PROMPT_VERSION)
+    .eq("kb_version", kbVersion)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const items = FodmapItemSchema.array().safeParse(data.items);
+  return items.success ? { items: items.data, kbVersion } : null;
+}
+
+// The hash comes from the client, so it is checked against the uploaded image
+// before anything is stored under it; otherwise one user could plant results
+// for an image that other users upload later.
+export async function storeCachedAnalysis(
+  client: SupabaseClient,
+  { contentHash, imagePath, items, kbVersion }: {
+    contentHash: string;
+    imagePath: string;
+    items: FodmapItem[];
+    kbVersion: number;
+  },
+): Promise<void> {
+  const { data: image, error: downloadError } = await client.storage.from(BUCKET).download(imagePath);
+  if (downloadError) throw downloadError;
+
+  if (await sha256Hex(await image.arrayBuffer()) !== contentHash) {
+    console.warn(`Content hash does not match ${imagePath}, not caching its analysis`);
+    return;
+  }
+
+  const { error } = await client.from("analysis_cache").upsert({
+    content_hash: contentHash,
+    prompt_version: PROMPT_VERSION,
+    kb_version: kbVersion,
+    items,
+  });
+  if (error) throw error;
+}
@@ -0,0 +1,23 @@
+import type { AnalysisQuota, AnalyzeMenuErrorCode } from "../_shared/fodmap-schema.ts";
+
+// A problem with what the caller sent (or pointed us at), answered with a
+// 4xx status and a code the client can map to a message.
+export class RequestError extends Error {
+  constructor(message: string, readonly code: AnalyzeMenuErrorCode, readonly status: number) {
+    super(message);
+    this.name = "RequestError";
+  }
+}
+
+// Over a daily or burst quota; answered with 429 and a Retry-After header
+export class QuotaExceededError extends RequestError {
+  constructor(
+    message: string,
+    code: "rate_limited" | "quota_exceeded",
+    readonly retryAfterSeconds: number,
+    readonly quota: AnalysisQuota,
+  ) {
+    super(message, code, 429);
+    this.name = "QuotaExceededError";
+  }
+}
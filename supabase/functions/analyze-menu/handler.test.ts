@@ -0,0 +1,264 @@
+import assert from "node:assert/strict";
+import {
+  type AnalysisStreamEvent,
+  AnalysisStreamEventSchema,
+  FodmapItemSchema,
+} from "../_shared/fodmap-schema.ts";
+import { MOCK_MENU_ITEMS } from "../_shared/providers/mock.ts";
+import { handleAnalyzeMenu } from "./handler.ts";
+
+// Stands in for the Supabase gateway: the auth user endpoint, the storage
+// listing the image check reads and the PostgREST calls an analysis makes
+// (quota, knowledge base and analysis cache).
+const KB_VERSION = 7;
+const KB_ROWS = [
+  { ingredient: "garlic", synonyms: [], subgroup: "fructans", level: "high", safe_serving_grams: null, source: "Test table" },
+  { ingredient: "onion", synonyms: ["shallot"], subgroup: "fructans", level: "high", safe_serving_grams: null, source: "Test table" },
+].map((row) => ({ kb_version: KB_VERSION, ...row }));
+const TEST_USER = { id: "00000000-0000-4000-8000-000000000001", aud: "authenticated", role: "authenticated" };
+const VALID_TOKEN = "test-user-token";
+const OTHER_USER_ID = "00000000-0000-4000-8000-000000000002";
+// Uploads by object path, with the metadata the storage listing reports
+const STORAGE_OBJECTS: Record<string, { size: number; mimetype: string }> = {
+  [`${TEST_USER.id}/menu.jpg`]: { size: 200_000, mimetype: "image/jpeg" },
+  [`${TEST_USER.id}/huge.jpg`]: { size: 11 * 1024 * 1024, mimetype: "image/jpeg" },
+  [`${TEST_USER.id}/menu.svg`]: { size: 4_000, mimetype: "image/svg+xml" },
+  [`${OTHER_USER_ID}/menu.jpg`]: { size: 200_000, mimetype: "image/jpeg" },
+};
+// A cached analysis of a menu photo, distinct from what the mock provider says
+const CACHED_HASH = "c".repeat(64);
+const CACHED_ITEMS = [FodmapItemSchema.parse({ ...MOCK_MENU_ITEMS[2], name: "Cached Salmon", subgroups: [], concerns: [] })];
+const CACHED_ANALYSES = new Map([[CACHED_HASH, CACHED_ITEMS]]);
+
+// The subjects of every consume_analysis_quota call, and the rows to answer
+// with for subjects that should be refused
+const quotaRequests: string[][] = [];
+let quotaRefusals: Record<string, { daily_used: number; daily_exceeded: boolean; retry_after_seconds: number }> = {};
+
+const supabase = Deno.serve({ port: 0, onListen: () => {} }, async (req) => {
+  const { pathname } = new URL(req.url);
+  if (pathname === "/auth/v1/user") {
+    return req.headers.get("Authorization") === `Bearer ${VALID_TOKEN}`
+      ? Response.json(TEST_USER)
+      : Response.json({ code: 401, msg: "invalid JWT" }, { status: 401 });
+  }
+  if (pathname === "/storage/v1/object/list/menu-images") {
+    const { prefix, search } = await req.json();
+    return Response.json(
+      Object.entries(STORAGE_OBJECTS)
+        .filter(([path]) => path === `${prefix}/${search}`)
+        .map(([path, metadata]) => ({ name: path.slice(prefix.length + 1), metadata })),
+    );
+  }
+  if (pathname === "/rest/v1/rpc/consume_analysis_quota") {
+    const { quota_subjects: subjects }: { quota_subjects: string[] } = await req.json();
+    quotaRequests.push(subjects);
+    return Response.json(subjects.map((subject) => ({
+      subject,
+      ...(quotaRefusals[subject] ?? { daily_used: 0, daily_exceeded: false, retry_after_seconds: 0 }),
+    })));
+  }
+  if (pathname === "/rest/v1/analysis_cache") {
+    const params = new URL(req.url).searchParams;
+    const items = params.get("kb_version") === `eq.${KB_VERSION}`
+      ? CACHED_ANALYSES.get(params.get("content_hash")?.replace(/^eq\./, "") ?? "")
+      : undefined;
+    return Response.json(items ? [{ items }] : []);
+  }
+  if (pathname === "/rest/v1/fodmap_ingredients_current") {
+    return Response.json(KB_ROWS);
+  }
+  return Response.json({ message: `Unexpected request to ${pathname}` }, { status: 404 });
+});
+// The admin client keeps the first URL it sees, so one server serves every test
+supabase.unref();
+
+Deno.env.set("SUPABASE_URL", `http://localhost:${supabase.addr.port}`);
+Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", "test-service-role-key");
+Deno.env.set("VISION_PROVIDER", "mock");
+
+const analyze = (body: unknown, token = VALID_TOKEN, headers: Record<string, string> = {}) =>
+  handleAnalyzeMenu(
+    new Request("http://localhost/analyze-menu", {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+    }),
+  );
+
+const signedImageUrl = (path: string, origin = Deno.env.get("SUPABASE_URL")) =>
+  `${origin}/storage/v1/object/sign/menu-images/${path}?token=signed-token`;
+
+const MENU_TEXT = "Caesar Salad 11.50\nFrench Onion Soup 8.00\nGrilled Salmon 24.00";
+
+Deno.test("analyze-menu streams every dish, grounded in the knowledge base", async () => {
+  const response = await analyze({ menuText: MENU_TEXT, stream: true });
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("Content-Type"), "application/x-ndjson");
+  assert.equal(response.headers.get("X-Quota-Remaining"), "59");
+
+  const events: AnalysisStreamEvent[] = (await response.text())
+    .trim()
+    .split("\n")
+    .map((line) => AnalysisStreamEventSchema.parse(JSON.parse(line)));
+
+  assert.deepEqual(events.map((event) => event.type), ["received", "dishes", "item", "item", "item", "done"]);
+  assert.deepEqual(events[1], { type: "dishes", names: MOCK_MENU_ITEMS.map((item) => item.name) });
+  assert.deepEqual(events.at(-1), { type: "done", total: 3, kbVersion: KB_VERSION });
+
+  const items = events.flatMap((event) => (event.type === "item" ? [event.item] : []));
+  assert.deepEqual(events.flatMap((event) => (event.type === "item" ? [event.index] : [])), [0, 1, 2]);
+
+  // Garlic is high in the table, so the salad goes from the model's
+  // moderate to high, with the table as the reference.
+  const salad = items[0];
+  assert.equal(salad.fodmapLevel, "high");
+  assert.deepEqual(salad.subgroups.find((rating) => rating.ingredient === "garlic"), {
+    subgroup: "fructans",
+    level: "high",
+    ingredient: "garlic",
+    origin: "database",
+    safeServingGrams: null,
+    reference: "Test table",
+  });
+  assert.ok(salad.concerns.some((concern) => concern.origin === "database" && concern.text === "Garlic: high in fructans"));
+  // Croutons are not in the table, so the model's rating stays
+  assert.ok(salad.subgroups.some((rating) => rating.ingredient === "Wheat croutons" && rating.origin === "model"));
+
+  const salmon = items[2];
+  assert.equal(salmon.fodmapLevel, "low");
+  assert.ok(salmon.subgroups.every((rating) => rating.origin === "model"));
+});
+
+Deno.test("analyze-menu answers with a schema-valid array when not streaming", async () => {
+  const response = await analyze({ menuText: MENU_TEXT });
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("X-FODMAP-KB-Version"), String(KB_VERSION));
+
+  const items = FodmapItemSchema.array().parse(await response.json());
+  assert.deepEqual(items.map((item) => item.name), MOCK_MENU_ITEMS.map((item) => item.name));
+  assert.equal(items[1].fodmapLevel, "high");
+  assert.ok(items[1].subgroups.some((rating) => rating.ingredient === "onion" && rating.origin === "database"));
+});
+
+Deno.test("analyze-menu refuses requests without a signed-in user", async () => {
+  const response = await analyze({ menuText: MENU_TEXT }, "expired-token");
+  assert.equal(response.status, 401);
+  assert.equal((await response.json()).code, "unauthorized");
+});
+
+Deno.test("analyze-menu rejects a request with two sources", async () => {
+  const response = await analyze({ menuText: MENU_TEXT, menuUrl: "https://example.com/menu" });
+  assert.equal(response.status, 400);
+  assert.equal((await response.json()).code, "invalid_request");
+});
+
+Deno.test("analyze-menu does not take quota for a menu page it cannot read", async () => {
+  const callsBefore = quotaRequests.length;
+  const response = await analyze({ menuUrl: "http://127.0.0.1/menu" });
+  assert.equal(response.status, 400);
+  assert.equal((await response.json()).code, "url_not_allowed");
+  assert.equal(quotaRequests.length, callsBefore);
+});
+
+Deno.test("analyze-menu only passes signed URLs from this app's storage to the model", async () => {
+  const callsBefore = quotaRequests.length;
+  for (const imageUrl of [
+    signedImageUrl(`${TEST_USER.id}/menu.jpg`, "https://images.example.com"),
+    signedImageUrl(`${TEST_USER.id}/menu.jpg`).replace("?token=signed-token", ""),
+    `${Deno.env.get("SUPABASE_URL")}/storage/v1/object/public/menu-images/${TEST_USER.id}/menu.jpg`,
+  ]) {
+    const response = await analyze({ imageUrl });
+    assert.equal(response.status, 400, imageUrl);
+    assert.equal((await response.json()).code, "image_url_not_allowed");
+  }
+  assert.equal(quotaRequests.length, callsBefore);
+});
+
+Deno.test("analyze-menu refuses another user's upload", async () => {
+  const callsBefore = quotaRequests.length;
+  const response = await analyze({ imageUrl: signedImageUrl(`${OTHER_USER_ID}/menu.jpg`) });
+  assert.equal(response.status, 403);
+  assert.equal((await response.json()).code, "image_url_not_allowed");
+
+  // A path that only starts like the caller's folder is someone else's too
+  const disguised = await analyze({ imageUrl: signedImageUrl(`${TEST_USER.id}x/menu.jpg`) });
+  assert.equal(disguised.status, 403);
+  assert.equal(quotaRequests.length, callsBefore);
+});
+
+Deno.test("analyze-menu checks the uploaded image against the bucket limits", async () => {
+  const callsBefore = quotaRequests.length;
+  const cases = [
+    [`${TEST_USER.id}/missing.jpg`, 404, "image_not_found"],
+    [`${TEST_USER.id}/huge.jpg`, 413, "image_too_large"],
+    [`${TEST_USER.id}/menu.svg`, 415, "unsupported_image_type"],
+  ] as const;
+  for (const [path, status, code] of cases) {
+    const response = await analyze({ imageUrl: signedImageUrl(path) });
+    assert.equal(response.status, status, path);
+    assert.equal((await response.json()).code, code);
+  }
+  assert.equal(quotaRequests.length, callsBefore);
+
+  const allowed = await analyze({ imageUrl: signedImageUrl(`${TEST_USER.id}/menu.jpg`) });
+  assert.equal(allowed.status, 200);
+  assert.equal((await allowed.json()).length, MOCK_MENU_ITEMS.length);
+  assert.equal(quotaRequests.length, callsBefore + 1);
+});
+
+Deno.test("analyze-menu answers 429 with Retry-After once the daily quota is used up", async () => {
+  quotaRefusals = {
+    [`user:${TEST_USER.id}`]: { daily_used: 60, daily_exceeded: true, retry_after_seconds: 3600 },
+  };
+  try {
+    const response = await analyze({ menuText: MENU_TEXT });
+    assert.equal(response.status, 429);
+    assert.equal((await response.json()).code, "quota_exceeded");
+    assert.equal(response.headers.get("Retry-After"), "3600");
+    assert.equal(response.headers.get("X-Quota-Limit"), "60");
+    assert.equal(response.headers.get("X-Quota-Remaining"), "0");
+    // Without a forwarded address only the user is counted
+    assert.deepEqual(quotaRequests.at(-1), [`user:${TEST_USER.id}`]);
+  } finally {
+    quotaRefusals = {};
+  }
+});
+
+Deno.test("analyze-menu also counts the caller's IP and refuses when only the IP is over its limit", async () => {
+  quotaRefusals = { "ip:203.0.113.7": { daily_used: 12, daily_exceeded: false, retry_after_seconds: 12 } };
+  try {
+    const response = await analyze({ menuText: MENU_TEXT }, VALID_TOKEN, { "X-Forwarded-For": "203.0.113.7, 10.0.0.1" });
+    assert.equal(response.status, 429);
+    assert.equal((await response.json()).code, "rate_limited");
+    assert.equal(response.headers.get("Retry-After"), "12");
+    // The user's own quota is untouched by a refusal
+    assert.equal(response.headers.get("X-Quota-Remaining"), "60");
+    assert.deepEqual(quotaRequests.at(-1), [`user:${TEST_USER.id}`, "ip:203.0.113.7"]);
+  } finally {
+    quotaRefusals = {};
+  }
+});
+
+Deno.test("analyze-menu answers a cached image without the model or quota", async () => {
+  const callsBefore = quotaRequests.length;
+  const response = await analyze({ contentHash: CACHED_HASH });
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("X-Analysis-Cache"), "hit");
+  assert.equal(response.headers.get("X-Quota-Remaining"), null);
+  // The mock provider never names a dish "Cached Salmon"
+  assert.deepEqual(await response.json(), CACHED_ITEMS);
+
+  const streamed = await analyze({ contentHash: CACHED_HASH, stream: true });
+  const events = (await streamed.text()).trim().split("\n").map((line) => JSON.parse(line));
+  assert.deepEqual(events.flatMap((event) => (event.type === "item" ? [event.item] : [])), CACHED_ITEMS);
+  assert.equal(quotaRequests.length, callsBefore);
+});
+
+Deno.test("analyze-menu reports a miss for a hash it has no analysis of", async () => {
+  const callsBefore = quotaRequests.length;
+  const response = await analyze({ contentHash: "d".repeat(64) });
+  assert.equal(response.status, 404);
+  assert.equal((await response.json()).code, "cache_miss");
+  assert.equal(quotaRequests.length, callsBefore);
+});
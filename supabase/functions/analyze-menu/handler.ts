@@ -0,0 +1,204 @@
+import {
+  type AnalysisErrorBody,
+  type AnalysisStreamEvent,
+  AnalyzeMenuRequestSchema,
+  type FodmapItem,
+  toValidationIssues,
+} from "../_shared/fodmap-schema.ts";
+import { getRequestUser } from "../_shared/auth.ts";
+import { corsHeadersFor } from "../_shared/cors.ts";
+import { consumeAnalysisQuota, getClientIp, quotaHeaders } from "../_shared/quota.ts";
+import { getVisionProvider, type ProviderMessage } from "../_shared/providers/index.ts";
+import { getAdminClient } from "../_shared/supabase-admin.ts";
+import { analyzeMenu, ModelOutputError, replayMenuAnalysis, streamMenuAnalysis } from "./analysis.ts";
+import { lookupCachedAnalysis, storeCachedAnalysis } from "./cache.ts";
+import { QuotaExceededError, RequestError } from "./errors.ts";
+import { saveAnalysisPage } from "./history.ts";
+import { fetchMenuPageText } from "./html.ts";
+import { assertAllowedImageUrl } from "./image-guard.ts";
+import { buildMenuTextPrompt, MENU_IMAGE_PROMPT } from "./prompt.ts";
+
+// Menu text is capped at 30k characters; this leaves room for JSON escaping.
+const MAX_REQUEST_BYTES = 256 * 1024;
+
+async function readJsonBody(req: Request): Promise<unknown> {
+  if (Number(req.headers.get("content-length") ?? 0) > MAX_REQUEST_BYTES) {
+    throw new RequestError("Request body is too large", "payload_too_large", 413);
+  }
+  const text = await req.text();
+  if (new TextEncoder().encode(text).byteLength > MAX_REQUEST_BYTES) {
+    throw new RequestError("Request body is too large", "payload_too_large", 413);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestError("Request body must be JSON", "invalid_request", 400);
+  }
+}
+
+// The whole request, from auth to response; index.ts serves it and the tests
+// call it directly.
+export async function handleAnalyzeMenu(req: Request): Promise<Response> {
+  const corsHeaders = corsHeadersFor(req);
+  const jsonResponse = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+      status,
+    });
+  const errorResponse = (body: AnalysisErrorBody, status: number, headers: Record<string, string> = {}) =>
+    jsonResponse(body, status, headers);
+
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") {
+      throw new RequestError("Use POST", "method_not_allowed", 405);
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      throw new RequestError("Sign in to analyze menus", "unauthorized", 401);
+    }
+
+    const request = AnalyzeMenuRequestSchema.safeParse(await readJsonBody(req));
+
+    if (!request.success) {
+      return errorResponse({
+        error: "Provide exactly one of imageUrl, menuText or menuUrl, or only contentHash",
+        code: "invalid_request",
+        issues: toValidationIssues(request.error),
+      }, 400);
+    }
+
+    const { imageUrl, menuText, menuUrl, contentHash, page } = request.data;
+    const client = getAdminClient();
+
+    // Every analyzed page goes into the user's history. Saving is best
+    // effort: the analysis itself has already been delivered.
+    const saveToHistory = async (items: FodmapItem[], kbVersion: number) => {
+      if (!page) return;
+      try {
+        await saveAnalysisPage(client, {
+          userId: user.id,
+          page,
+          request: { menuText, menuUrl, contentHash },
+          items,
+          kbVersion,
+        });
+      } catch (e) {
+        console.error("Could not save analysis to history:", e);
+      }
+    };
+
+    const streamResponse = (
+      run: (send: (event: AnalysisStreamEvent) => void) => Promise<void>,
+      headers: Record<string, string>,
+    ) => {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        async start(controller) {
+          const send = (event: AnalysisStreamEvent) =>
+            controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+          try {
+            await run(send);
+          } catch (error) {
+            // Headers are already sent, so failures travel as the last event.
+            console.error("Error streaming analysis:", error);
+            send(
+              error instanceof ModelOutputError
+                ? { type: "error", error: error.message, code: "invalid_model_output", issues: error.issues }
+                : { type: "error", error: (error as Error).message },
+            );
+          }
+          controller.close();
+        },
+      });
+
+      return new Response(body, {
+        headers: { ...corsHeaders, ...headers, "Content-Type": "application/x-ndjson" },
+        status: 200,
+      });
+    };
+
+    // A cached analysis skips the model, and with it the quota
+    const cached = contentHash ? await lookupCachedAnalysis(client, contentHash) : null;
+    if (cached) {
+      await saveToHistory(cached.items, cached.kbVersion);
+      const cacheHeaders = { "X-Analysis-Cache": "hit", "X-FODMAP-KB-Version": String(cached.kbVersion) };
+      return request.data.stream
+        ? streamResponse(async (send) => replayMenuAnalysis(cached, send), cacheHeaders)
+        : jsonResponse(cached.items, 200, cacheHeaders);
+    }
+    if (!imageUrl && !menuText && !menuUrl) {
+      throw new RequestError("No cached analysis for this image", "cache_miss", 404);
+    }
+
+    if (imageUrl) {
+      await assertAllowedImageUrl(imageUrl, user.id);
+    }
+    // Read the page before taking quota: a page that cannot be fetched or
+    // has no menu on it never reaches the model, so it should not count
+    const pageText = menuUrl ? await fetchMenuPageText(menuUrl) : null;
+
+    // Only requests that will reach the model count against the quota
+    const usage = await consumeAnalysisQuota(client, user.id, getClientIp(req));
+    if (!usage.allowed) {
+      throw usage.reason === "daily"
+        ? new QuotaExceededError("Daily analysis quota used up", "quota_exceeded", usage.retryAfterSeconds, usage.quota)
+        : new QuotaExceededError("Too many analyses, slow down", "rate_limited", usage.retryAfterSeconds, usage.quota);
+    }
+
+    // Best effort, like the history: a failure only means the next upload of
+    // this image is analyzed again.
+    const addToCache = async (items: FodmapItem[], kbVersion: number) => {
+      const imagePath = page?.imagePath;
+      if (!contentHash || !imagePath?.startsWith(`${user.id}/`) || items.length === 0) return;
+      try {
+        await storeCachedAnalysis(client, { contentHash, imagePath, items, kbVersion });
+      } catch (e) {
+        console.error("Could not cache analysis:", e);
+      }
+    };
+
+    const provider = getVisionProvider();
+    const messages: ProviderMessage[] = [
+      imageUrl
+        ? { role: "user", text: MENU_IMAGE_PROMPT, imageUrls: [imageUrl] }
+        : { role: "user", text: buildMenuTextPrompt(pageText ?? menuText ?? "") },
+    ];
+
+    if (request.data.stream) {
+      return streamResponse(async (send) => {
+        const { items, kbVersion } = await streamMenuAnalysis(provider, messages, send);
+        await Promise.all([saveToHistory(items, kbVersion), addToCache(items, kbVersion)]);
+      }, quotaHeaders(usage.quota));
+    }
+
+    const { items, kbVersion } = await analyzeMenu(provider, messages);
+    await Promise.all([saveToHistory(items, kbVersion), addToCache(items, kbVersion)]);
+
+    return jsonResponse(items, 200, {
+      ...quotaHeaders(usage.quota),
+      "X-FODMAP-KB-Version": String(kbVersion),
+    });
+
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return errorResponse({ error: error.message, code: error.code }, error.status, {
+        ...quotaHeaders(error.quota),
+        "Retry-After": String(error.retryAfterSeconds),
+      });
+    }
+    if (error instanceof RequestError) {
+      return errorResponse({ error: error.message, code: error.code }, error.status);
+    }
+    if (error instanceof ModelOutputError) {
+      return errorResponse({ error: error.message, code: "invalid_model_output", issues: error.issues }, 502);
+    }
+    console.error("Error processing request:", error);
+    return errorResponse({ error: (error as Error).message }, 500);
+  }
+}
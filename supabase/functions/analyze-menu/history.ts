@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { AnalysisPage, AnalyzeMenuRequest, FodmapItem } from "../_shared/fodmap-schema.ts";
+
+export interface SavedPage {
+  userId: string;
+  page: AnalysisPage;
+  request: Pick<AnalyzeMenuRequest, "menuText" | "menuUrl" | "contentHash">;
+  items: FodmapItem[];
+  kbVersion: number;
+}
+
+// Records one analyzed page under its analysis, creating the analysis on its
+// first page. Pages of one session arrive in parallel, hence the upsert.
+export async function saveAnalysisPage(
+  client: SupabaseClient,
+  { userId, page, request, items, kbVersion }: SavedPage,
+): Promise<void> {
+  const { error: analysisError } = await client
+    .from("analyses")
+    .upsert({ id: page.analysisId, user_id: userId, kb_version: kbVersion }, { ignoreDuplicates: true });
+  if (analysisError) throw analysisError;
+
+  // The id comes from the client; never attach pages to someone else's analysis.
+  const { data: analysis, error: ownerError } = await client
+    .from("analyses")
+    .select("id")
+    .eq("id", page.analysisId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (ownerError) throw ownerError;
+  if (!analysis) throw new Error(`Analysis ${page.analysisId} belongs to another user`);
+
+  // Users upload under their own folder; ignore a path pointing elsewhere.
+  const imagePath = page.imagePath?.startsWith(`${userId}/`) ? page.imagePath : null;
+
+  const { data: menuPage, error: pageError } = await client
+    .from("menu_pages")
+    .upsert(
+      {
+        analysis_id: page.analysisId,
+        page_index: page.index,
+        file_name: page.fileName ?? null,
+        image_path: imagePath,
+        menu_text: request.menuText ?? null,
+        menu_url: request.menuUrl ?? null,
+        content_hash: request.contentHash ?? null,
+      },
+      { onConflict: "analysis_id,page_index" },
+    )
+    .select("id")
+    .single();
+  if (pageError) throw pageError;
+
+  // A retried page replaces its earlier items
+  const { error: deleteError } = await client.from("analyzed_items").delete().eq("menu_page_id", menuPage.id);
+  if (deleteError) throw deleteError;
+  if (items.length === 0) return;
+
+  const { error: itemsError } = await client.from("analyzed_items").insert(
+    items.map((item, position) => ({
+      analysis_id: page.analysisId,
+      menu_page_id: menuPage.id,
+      position,
+      name: item.name,
+      fodmap_level: item.fodmapLevel,
+      item,
+    })),
+  );
+  if (itemsError) throw itemsError;
+}
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { RequestError } from "./errors.ts";
+import { extractMenuText, fetchMenuPageText } from "./html.ts";
+import { assertPublicUrl } from "./network.ts";
+
+const MENU_DISHES = [
+  "Caesar Salad - Romaine lettuce, parmesan, croutons and a classic caesar dressing - 11.50",
+  "French Onion Soup - Caramelised onion broth with a cheese-topped baguette crouton - 8.00",
+  "Grilled Salmon - Salmon fillet with lemon, steamed rice and green beans - 24.00",
+];
+
+const MENU_PAGE = `<!doctype html>
+<html>
+  <head><title>Bistro</title><style>.menu { color: red }</style></head>
+  <body>
+    <header><nav><a href="/">Home</a><a href="/book">Book a table</a></nav></header>
+    <div class="hero">Welcome to our bistro</div>
+    <section id="food-menu">
+      <h2>Starters</h2>
+      <ul>${MENU_DISHES.map((dish) => `<li>${dish}</li>`).join("")}</ul>
+    </section>
+    <script>trackVisit("menu")</script>
+    <footer>Open daily from noon</footer>
+  </body>
+</html>`;
+
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+const html = (body: BodyInit) => new Response(body, { headers: { "Content-Type": "text/html; charset=utf-8" } });
+
+// A restaurant website on localhost; each path plays one kind of site.
+const site = Deno.serve({ port: 0, onListen: () => {} }, (req) => {
+  const { pathname } = new URL(req.url);
+  const hops = pathname.match(/^\/redirect\/(\d+)$/);
+  if (hops) {
+    const left = Number(hops[1]);
+    return new Response(null, { status: 302, headers: { Location: left > 0 ? `/redirect/${left - 1}` : "/menu" } });
+  }
+  switch (pathname) {
+    case "/menu":
+      return html(MENU_PAGE);
+    case "/menu.pdf":
+      return new Response("%PDF-1.7", { headers: { "Content-Type": "application/pdf" } });
+    case "/large":
+      // Streamed without a Content-Length, so only counting the bytes catches it
+      return html(ReadableStream.from((function* () {
+        const chunk = new TextEncoder().encode(`<p>${"x".repeat(64 * 1024 - 7)}</p>`);
+        for (let sent = 0; sent <= MAX_HTML_BYTES; sent += chunk.byteLength) yield chunk;
+      })()));
+    case "/empty":
+      return html("<html><body><script>render()</script></body></html>");
+    case "/to-private":
+      return new Response(null, { status: 302, headers: { Location: "http://10.0.0.1/menu" } });
+    default:
+      return new Response("Not found", { status: 404 });
+  }
+});
+site.unref();
+
+const siteUrl = (path: string) => `http://localhost:${site.addr.port}${path}`;
+
+// Lets the fixture site through; every other host gets the real check.
+const allowFixtureSite = (url: URL) =>
+  url.port === String(site.addr.port) ? Promise.resolve() : assertPublicUrl(url);
+
+const fetchFromSite = (path: string) => fetchMenuPageText(siteUrl(path), allowFixtureSite);
+
+const assertRequestError = async (promise: Promise<unknown>, code: string, status = 422) => {
+  const error = await promise.then(() => null, (e) => e);
+  assert.ok(error instanceof RequestError, `expected a RequestError, got ${error}`);
+  assert.equal(error.code, code);
+  assert.equal(error.status, status);
+};
+
+Deno.test("extractMenuText keeps the menu and drops navigation, scripts and styles", () => {
+  assert.equal(extractMenuText(MENU_PAGE), ["Starters", ...MENU_DISHES].join("\n"));
+});
+
+Deno.test("extractMenuText falls back to the page body when no element looks like a menu", () => {
+  const text = extractMenuText("<html><body><nav>Home</nav><main><p>Soup 5</p><p>Bread 2</p></main></body></html>");
+  assert.equal(text, "Soup 5\nBread 2");
+});
+
+Deno.test("fetchMenuPageText returns the menu text of a page", async () => {
+  assert.equal(await fetchFromSite("/menu"), ["Starters", ...MENU_DISHES].join("\n"));
+});
+
+Deno.test("fetchMenuPageText follows up to five redirects", async () => {
+  assert.equal(await fetchFromSite("/redirect/4"), ["Starters", ...MENU_DISHES].join("\n"));
+});
+
+Deno.test("fetchMenuPageText gives up after five redirects", async () => {
+  await assertRequestError(fetchFromSite("/redirect/5"), "menu_page_unreachable");
+});
+
+Deno.test("fetchMenuPageText rejects pages that are not HTML", async () => {
+  await assertRequestError(fetchFromSite("/menu.pdf"), "menu_page_not_html");
+});
+
+Deno.test("fetchMenuPageText stops reading pages over the size limit", async () => {
+  await assertRequestError(fetchFromSite("/large"), "menu_page_too_large");
+});
+
+Deno.test("fetchMenuPageText rejects pages without any text", async () => {
+  await assertRequestError(fetchFromSite("/empty"), "menu_page_empty");
+});
+
+Deno.test("fetchMenuPageText reports HTTP errors", async () => {
+  await assertRequestError(fetchFromSite("/missing"), "menu_page_unreachable");
+});
+
+Deno.test("fetchMenuPageText refuses the local site with the default check", async () => {
+  await assertRequestError(fetchMenuPageText(siteUrl("/menu")), "url_not_allowed", 400);
+});
+
+Deno.test("fetchMenuPageText checks every redirect hop against private addresses", async () => {
+  await assertRequestError(fetchFromSite("/to-private"), "url_not_allowed", 400);
+});
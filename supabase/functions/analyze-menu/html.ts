@@ -0,0 +1,115 @@
+import { HTMLElement, type Node, parse, TextNode } from "npm:node-html-parser@6";
+import { MAX_MENU_TEXT_LENGTH } from "../_shared/fodmap-schema.ts";
+import { RequestError } from "./errors.ts";
+import { assertPublicUrl } from "./network.ts";
+
+const FETCH_TIMEOUT_MS = 10_000;
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+
+const NOISE_SELECTORS = "script, style, noscript, template, svg, iframe, nav, header, footer, form";
+const BLOCK_TAGS = new Set([
+  "ADDRESS", "ARTICLE", "ASIDE", "BLOCKQUOTE", "BR", "DD", "DIV", "DL", "DT", "FIGCAPTION",
+  "H1", "H2", "H3", "H4", "H5", "H6", "HR", "LI", "MAIN", "OL", "P", "PRE", "SECTION",
+  "TABLE", "TD", "TH", "TR", "UL",
+]);
+
+// Text of a subtree with line breaks at block boundaries, roughly what a
+// browser's innerText would give without needing layout.
+function blockText(node: Node): string {
+  if (node instanceof TextNode) return node.text;
+  if (!(node instanceof HTMLElement)) return "";
+  const inner = node.childNodes.map(blockText).join("");
+  return BLOCK_TAGS.has(node.tagName) ? `\n${inner}\n` : inner;
+}
+
+const tidy = (text: string) =>
+  text
+    .split("\n")
+    .map((line) => line.replace(/\s+/g, " ").trim())
+    .filter(Boolean)
+    .join("\n");
+
+// Prefers the element that looks most like the menu (an id or class
+// containing "menu" with the most text), falling back to <main> or <body>.
+export function extractMenuText(html: string): string {
+  const root = parse(html);
+  root.querySelectorAll(NOISE_SELECTORS).forEach((node) => node.remove());
+
+  const best = root
+    .querySelectorAll("[id], [class]")
+    .filter((node) => /menu/i.test(`${node.id} ${node.classNames}`))
+    .map((node) => ({ node, text: tidy(blockText(node)) }))
+    .sort((a, b) => b.text.length - a.text.length)[0];
+
+  const fallback = root.querySelector("main") ?? root.querySelector("body") ?? root;
+  const text = best && best.text.length >= 200 ? best.text : tidy(blockText(fallback));
+  return text.slice(0, MAX_MENU_TEXT_LENGTH);
+}
+
+// Stops reading as soon as the page exceeds the limit instead of buffering
+// whatever size the server decides to send.
+async function readCapped(response: Response, maxBytes: number): Promise<string> {
+  const tooLarge = () => new RequestError("The menu page is too large to analyze", "menu_page_too_large", 422);
+  if (Number(response.headers.get("content-length") ?? 0) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of response.body ?? []) {
+    size += chunk.byteLength;
+    if (size > maxBytes) throw tooLarge();
+    chunks.push(chunk);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return new TextDecoder().decode(body);
+}
+
+// assertUrl vets every hop; tests replace it to reach a local fixture server.
+export async function fetchMenuPageText(menuUrl: string, assertUrl = assertPublicUrl): Promise<string> {
+  // Redirects are followed by hand so every hop passes the same checks.
+  let url = new URL(menuUrl);
+  let response: Response;
+  for (let redirects = 0; ; redirects++) {
+    await assertUrl(url);
+    try {
+      response = await fetch(url, {
+        headers: { "Accept": "text/html,application/xhtml+xml" },
+        redirect: "manual",
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+    } catch (e) {
+      throw new RequestError(`Could not load the menu page: ${(e as Error).message}`, "menu_page_unreachable", 422);
+    }
+
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    if (redirects === MAX_REDIRECTS) {
+      throw new RequestError("The menu page redirects too many times", "menu_page_unreachable", 422);
+    }
+    await response.body?.cancel();
+    url = new URL(location, url);
+  }
+
+  if (!response.ok) {
+    throw new RequestError(`The menu page responded with HTTP ${response.status}`, "menu_page_unreachable", 422);
+  }
+  const contentType = response.headers.get("content-type") ?? "";
+  if (!/text\/html|application\/xhtml\+xml/.test(contentType)) {
+    throw new RequestError(`The menu page is not HTML (${contentType || "unknown type"})`, "menu_page_not_html", 422);
+  }
+
+  const text = extractMenuText(await readCapped(response, MAX_HTML_BYTES));
+  if (!text) {
+    throw new RequestError("No menu text was found on the page", "menu_page_empty", 422);
+  }
+  return text;
+}
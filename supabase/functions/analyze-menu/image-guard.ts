@@ -0,0 +1,53 @@
+import { getAdminClient } from "../_shared/supabase-admin.ts";
+import { RequestError } from "./errors.ts";
+
+const BUCKET = "menu-images";
+// Same limits as the bucket itself (menu_image_limits migration)
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+export const ALLOWED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif"];
+
+const SIGNED_PATH = new RegExp(`^/storage/v1/object/sign/${BUCKET}/(.+)$`);
+
+// The storage origin as the client sees it. Inside the local stack
+// SUPABASE_URL is an internal address, so STORAGE_PUBLIC_URL can add the
+// public one.
+const storageOrigins = () =>
+  [Deno.env.get("SUPABASE_URL"), Deno.env.get("STORAGE_PUBLIC_URL")]
+    .filter((url): url is string => Boolean(url))
+    .map((url) => new URL(url).origin);
+
+// Only signed URLs for the caller's own uploads are passed to the model, so
+// the function can't be used to make the provider fetch arbitrary URLs, and
+// the image must exist within the size and type limits.
+export async function assertAllowedImageUrl(imageUrl: string, userId: string): Promise<void> {
+  const url = new URL(imageUrl);
+  const path = url.pathname.match(SIGNED_PATH)?.[1];
+  if (!storageOrigins().includes(url.origin) || !path || !url.searchParams.has("token")) {
+    throw new RequestError("imageUrl must be a signed URL from this app's storage", "image_url_not_allowed", 400);
+  }
+
+  const objectPath = decodeURIComponent(path);
+  if (!objectPath.startsWith(`${userId}/`)) {
+    throw new RequestError("imageUrl points to another user's upload", "image_url_not_allowed", 403);
+  }
+
+  const folder = objectPath.slice(0, objectPath.lastIndexOf("/"));
+  const name = objectPath.slice(objectPath.lastIndexOf("/") + 1);
+  const { data, error } = await getAdminClient().storage.from(BUCKET).list(folder, { search: name, limit: 100 });
+  if (error) throw error;
+
+  const object = data.find((entry) => entry.name === name);
+  if (!object) {
+    throw new RequestError("The uploaded image was not found", "image_not_found", 404);
+  }
+
+  const size = Number(object.metadata?.size ?? 0);
+  if (size > MAX_IMAGE_BYTES) {
+    throw new RequestError(`Images may be at most ${MAX_IMAGE_BYTES / 1024 / 1024} MB`, "image_too_large", 413);
+  }
+
+  const mimeType = String(object.metadata?.mimetype ?? "");
+  if (!ALLOWED_IMAGE_TYPES.includes(mimeType)) {
+    throw new RequestError(`Unsupported image type: ${mimeType || "unknown"}`, "unsupported_image_type", 415);
+  }
+}
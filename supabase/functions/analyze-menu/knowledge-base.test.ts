@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { applyKnowledgeBase, findEntries, type KnowledgeBase, type KnowledgeBaseEntry } from "./knowledge-base.ts";
+
+const entry = (
+  ingredient: string,
+  synonyms: string[],
+  subgroup: KnowledgeBaseEntry["subgroup"],
+  level: KnowledgeBaseEntry["level"],
+): KnowledgeBaseEntry => ({ ingredient, synonyms, subgroup, level, safeServingGrams: null, source: "Test table" });
+
+// The rows from version 2 that overlap, so each case shows which one wins
+const kb: KnowledgeBase = {
+  version: 2,
+  entries: [
+    entry("milk", ["cow milk", "whole milk", "ice cream", "custard"], "lactose", "high"),
+    entry("cream", ["double cream", "sour cream"], "lactose", "low"),
+    entry("coconut milk", ["canned coconut milk"], "sorbitol", "low"),
+    entry("coconut cream", [], "sorbitol", "low"),
+    entry("oat milk", [], "fructans", "low"),
+    entry("apple", ["apple sauce", "apple juice"], "excess-fructose", "high"),
+    entry("apple", ["apple sauce", "apple juice"], "sorbitol", "high"),
+    entry("apple cider vinegar", ["cider vinegar"], "excess-fructose", "low"),
+    entry("vinegar", ["red wine vinegar"], "excess-fructose", "low"),
+    entry("garlic", [], "fructans", "high"),
+    entry("garlic-infused oil", ["garlic oil"], "fructans", "low"),
+    entry("onion", ["red onion", "shallot"], "fructans", "high"),
+  ],
+};
+
+const ingredientsFor = (text: string) => [...new Set(findEntries(text, kb).map((match) => match.ingredient))];
+
+Deno.test("findEntries prefers the longest matching ingredient", () => {
+  assert.deepEqual(ingredientsFor("Coconut milk"), ["coconut milk"]);
+  assert.deepEqual(ingredientsFor("coconut cream"), ["coconut cream"]);
+  assert.deepEqual(ingredientsFor("Oat milk"), ["oat milk"]);
+  assert.deepEqual(ingredientsFor("apple cider vinegar"), ["apple cider vinegar"]);
+  assert.deepEqual(ingredientsFor("Garlic-infused oil"), ["garlic-infused oil"]);
+});
+
+Deno.test("findEntries keeps dairy and apple on their own rows", () => {
+  assert.deepEqual(ingredientsFor("Whole milk"), ["milk"]);
+  assert.deepEqual(ingredientsFor("Vanilla ice cream"), ["milk"]);
+  assert.deepEqual(ingredientsFor("Double cream"), ["cream"]);
+  assert.deepEqual(findEntries("Green apples", kb).map((match) => match.subgroup), ["excess-fructose", "sorbitol"]);
+});
+
+Deno.test("findEntries finds every ingredient a mention names", () => {
+  assert.deepEqual(ingredientsFor("Garlic and onion butter"), ["garlic", "onion"]);
+  assert.deepEqual(ingredientsFor("Red onion, garlic-infused oil"), ["onion", "garlic-infused oil"]);
+  assert.deepEqual(ingredientsFor("Apple cider vinegar and garlic oil dressing"), ["apple cider vinegar", "garlic-infused oil"]);
+  assert.deepEqual(ingredientsFor("Apples with cream"), ["apple", "cream"]);
+});
+
+Deno.test("findEntries matches whole words only", () => {
+  assert.deepEqual(ingredientsFor("Buttermilk"), []);
+  assert.deepEqual(ingredientsFor("Pineapple"), []);
+});
+
+Deno.test("applyKnowledgeBase does not rate a coconut curry as high lactose", () => {
+  const item = applyKnowledgeBase({
+    name: "Thai green curry",
+    description: "Chicken in coconut milk",
+    ingredients: ["Chicken", "Coconut milk", "Green curry paste"],
+    fodmapLevel: "high",
+    subgroups: [{ subgroup: "lactose", level: "high", ingredient: "Coconut milk" }],
+    concerns: ["Coconut milk"],
+    alternatives: [],
+    confidence: 0.8,
+    confidenceReasons: [],
+    staffQuestions: [],
+    region: null,
+    section: null,
+    price: null,
+    currency: null,
+    portion: null,
+    allergens: [],
+    suitableDiets: [],
+  }, kb);
+
+  assert.equal(item.fodmapLevel, "low");
+  assert.deepEqual(item.subgroups.map((rating) => [rating.ingredient, rating.subgroup, rating.origin]), [
+    ["coconut milk", "sorbitol", "database"],
+  ]);
+  assert.deepEqual(item.concerns, []);
+});
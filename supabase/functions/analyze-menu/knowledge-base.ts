@@ -0,0 +1,154 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import {
+  type Concern,
+  FODMAP_SUBGROUP_LABELS,
+  type FodmapItem,
+  type FodmapLevel,
+  type FodmapSubgroup,
+  type GroundedSubgroupRating,
+  maxFodmapLevel,
+  type ModelMenuItem,
+} from "../_shared/fodmap-schema.ts";
+
+export interface KnowledgeBaseEntry {
+  ingredient: string;
+  synonyms: string[];
+  subgroup: FodmapSubgroup;
+  level: Exclude<FodmapLevel, "unknown">;
+  safeServingGrams: number | null;
+  source: string;
+}
+
+export interface KnowledgeBase {
+  version: number;
+  entries: KnowledgeBaseEntry[];
+}
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+let cached: { kb: KnowledgeBase; loadedAt: number } | null = null;
+
+export async function loadKnowledgeBase(client: SupabaseClient): Promise<KnowledgeBase> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.kb;
+  }
+
+  const { data, error } = await client
+    .from("fodmap_ingredients_current")
+    .select("kb_version, ingredient, synonyms, subgroup, level, safe_serving_grams, source");
+  if (error) throw error;
+
+  const kb: KnowledgeBase = {
+    version: data[0]?.kb_version ?? 0,
+    entries: data.map((row) => ({
+      ingredient: row.ingredient,
+      synonyms: row.synonyms ?? [],
+      subgroup: row.subgroup,
+      level: row.level,
+      safeServingGrams: row.safe_serving_grams === null ? null : Number(row.safe_serving_grams),
+      source: row.source,
+    })),
+  };
+  cached = { kb, loadedAt: Date.now() };
+  return kb;
+}
+
+const normalize = (text: string) =>
+  ` ${
+    text
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, " ")
+      .trim()
+  } `;
+
+// Whole words, tolerating a plural "s"/"es" on the menu side.
+const termPattern = (term: string) => new RegExp(`(?<= )${normalize(term).trim()}(?:e?s)?(?= )`, "g");
+
+// The entries of every knowledge-base ingredient mentioned in the text, in
+// the order they are mentioned. Where mentions overlap the longest wins, so
+// "garlic-infused oil" is not also read as garlic, while "garlic and onion
+// butter" finds both.
+export function findEntries(text: string, kb: KnowledgeBase): KnowledgeBaseEntry[] {
+  const haystack = normalize(text);
+  const matches: { ingredient: string; start: number; end: number }[] = [];
+  for (const entry of kb.entries) {
+    for (const term of [entry.ingredient, ...entry.synonyms]) {
+      for (const match of haystack.matchAll(termPattern(term))) {
+        matches.push({ ingredient: entry.ingredient, start: match.index, end: match.index + match[0].length });
+      }
+    }
+  }
+
+  const chosen: typeof matches = [];
+  for (const match of matches.sort((a, b) => (b.end - b.start) - (a.end - a.start))) {
+    if (chosen.every((other) => match.end <= other.start || match.start >= other.end)) chosen.push(match);
+  }
+  const ingredients = new Set(chosen.sort((a, b) => a.start - b.start).map((match) => match.ingredient));
+  return [...ingredients].flatMap((ingredient) => kb.entries.filter((entry) => entry.ingredient === ingredient));
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const toModelOnlyItem = (item: ModelMenuItem): FodmapItem => ({
+  ...item,
+  subgroups: item.subgroups.map((rating) => ({
+    ...rating,
+    origin: "model",
+    safeServingGrams: null,
+    reference: null,
+  })),
+  concerns: item.concerns.map((text) => ({ text, origin: "model" })),
+});
+
+// Replaces the model's subgroup ratings and concerns with knowledge-base rows
+// wherever an ingredient is covered; everything else keeps origin "model".
+export function applyKnowledgeBase(item: ModelMenuItem, kb: KnowledgeBase | null): FodmapItem {
+  if (!kb) return toModelOnlyItem(item);
+
+  const mentions = [...new Set([...item.ingredients, ...item.subgroups.map((s) => s.ingredient)])];
+  const matchedMentions = new Set<string>();
+  const databaseRatings = new Map<string, GroundedSubgroupRating>();
+
+  for (const mention of mentions) {
+    const entries = findEntries(mention, kb);
+    if (entries.length === 0) continue;
+    matchedMentions.add(mention);
+    for (const entry of entries) {
+      databaseRatings.set(`${entry.subgroup}:${entry.ingredient}`, {
+        subgroup: entry.subgroup,
+        level: entry.level,
+        ingredient: entry.ingredient,
+        origin: "database",
+        safeServingGrams: entry.safeServingGrams,
+        reference: entry.source,
+      });
+    }
+  }
+
+  if (databaseRatings.size === 0) return toModelOnlyItem(item);
+
+  const modelOnly = toModelOnlyItem(item);
+  const subgroups = [
+    ...databaseRatings.values(),
+    ...modelOnly.subgroups.filter((rating) => !matchedMentions.has(rating.ingredient)),
+  ];
+
+  const concerns: Concern[] = [
+    ...[...databaseRatings.values()]
+      .filter((rating) => rating.level !== "low")
+      .map((rating) => ({
+        text: `${capitalize(rating.ingredient)}: ${rating.level} in ${FODMAP_SUBGROUP_LABELS[rating.subgroup].toLowerCase()}`,
+        origin: "database" as const,
+      })),
+    // Model concerns about an ingredient the table covers are superseded.
+    ...modelOnly.concerns.filter((concern) => findEntries(concern.text, kb).length === 0),
+  ];
+
+  return {
+    ...modelOnly,
+    fodmapLevel: maxFodmapLevel(subgroups.map((rating) => rating.level)),
+    subgroups,
+    concerns,
+  };
+}
@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { RequestError } from "./errors.ts";
+import { assertPublicUrl, isPrivateAddress } from "./network.ts";
+
+Deno.test("isPrivateAddress flags internal IPv4 ranges", () => {
+  for (const address of [
+    "0.0.0.0", "10.1.2.3", "127.0.0.1", "100.64.0.1", "169.254.169.254", "172.16.0.1", "172.31.255.255",
+    "192.168.1.1", "192.0.0.8", "198.18.0.1", "224.0.0.1", "255.255.255.255",
+  ]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+});
+
+Deno.test("isPrivateAddress flags internal IPv6 ranges and mapped IPv4", () => {
+  for (const address of [
+    "::", "::1", "[::1]", "0:0:0:0:0:0:0:1", "fc00::1", "fd12:3456::1", "fe80::1", "ff02::1",
+    "::ffff:127.0.0.1", "::ffff:7f00:1", "0:0:0:0:0:ffff:a00:1", "::10.0.0.1",
+  ]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+});
+
+Deno.test("isPrivateAddress flags NAT64 and 6to4 addresses that embed internal IPv4", () => {
+  for (const address of [
+    "64:ff9b::127.0.0.1", "64:ff9b::a9fe:a9fe", "64:ff9b::c0a8:101", "64:ff9b:1::808:808",
+    "2002:7f00:1::", "2002:a00:1::1", "2002:c0a8:101:1::1",
+  ]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+});
+
+Deno.test("isPrivateAddress flags anything that is not an address", () => {
+  for (const address of ["", "example.com", "1::2::3", "12345::", "1:2:3:4:5:6:7:8:9"]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+});
+
+Deno.test("isPrivateAddress lets public addresses through", () => {
+  for (const address of [
+    "8.8.8.8", "172.32.0.1", "100.128.0.1", "2606:4700::1111", "::ffff:8.8.8.8", "::ffff:808:808",
+    "64:ff9b::808:808", "64:ff9b::8.8.4.4", "2002:808:808::1", "2001:db8::fc00",
+  ]) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+const assertRefused = async (url: string, code: string) => {
+  const error = await assertPublicUrl(new URL(url)).then(() => null, (e) => e);
+  assert.ok(error instanceof RequestError, `expected ${url} to be refused`);
+  assert.equal(error.code, code);
+  assert.equal(error.status, 400);
+};
+
+Deno.test("assertPublicUrl refuses private and loopback hosts", async () => {
+  for (const url of [
+    "http://localhost:8080/menu",
+    "http://api.localhost/menu",
+    "http://127.0.0.1/menu",
+    "http://10.0.0.1/menu",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[::1]/menu",
+    "http://[::ffff:192.168.0.1]/menu",
+    "http://[64:ff9b::10.0.0.1]/menu",
+    "http://[2002:a9fe:a9fe::]/latest/meta-data",
+  ]) {
+    await assertRefused(url, "url_not_allowed");
+  }
+});
+
+Deno.test("assertPublicUrl refuses schemes other than http and https", async () => {
+  await assertRefused("file:///etc/passwd", "unsupported_url");
+  await assertRefused("ftp://example.com/menu.html", "unsupported_url");
+});
+
+Deno.test("assertPublicUrl accepts public literal addresses without a lookup", async () => {
+  await assertPublicUrl(new URL("https://93.184.215.14/menu"));
+  await assertPublicUrl(new URL("https://[2606:4700::1111]/menu"));
+});
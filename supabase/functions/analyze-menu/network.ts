@@ -0,0 +1,101 @@
+import { RequestError } from "./errors.ts";
+
+const parseIPv4 = (address: string): number[] | null => {
+  const parts = address.split(".");
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.map(Number);
+};
+
+// Loopback, private, link-local, CGNAT, benchmarking, multicast and reserved
+// ranges: nothing a public restaurant website resolves to.
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return a === 0 || a === 10 || a === 127 || a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && (b === 168 || b === 0)) ||
+    (a === 198 && (b === 18 || b === 19));
+}
+
+// The eight 16-bit groups of an IPv6 address, with "::" expanded and a
+// trailing dotted IPv4 part ("::ffff:10.0.0.1") read as the last two groups.
+function parseIPv6(address: string): number[] | null {
+  let text = address;
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = parseIPv4(dotted[2]);
+    if (!ipv4) return null;
+    text = `${dotted[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const [head, tail] = halves.map((half) => (half ? half.split(":") : []));
+  const missing = 8 - head.length - (tail?.length ?? 0);
+  if (tail ? missing < 1 : missing !== 0) return null;
+  const groups = [...head, ...Array(missing).fill("0"), ...(tail ?? [])];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+const embeddedIPv4 = (high: number, low: number) => [high >> 8, high & 255, low >> 8, low & 255];
+
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+
+  const groups = parseIPv6(address.toLowerCase().replace(/^\[|\]$/g, ""));
+  // Not an address at all; refusing is the safe answer
+  if (!groups) return true;
+  const [first, second, third] = groups;
+  const zeros = (start: number, end: number) => groups.slice(start, end).every((group) => group === 0);
+
+  // Unspecified, loopback and the deprecated IPv4-compatible ::/96
+  if (zeros(0, 6)) return true;
+  // IPv4 addresses carried inside IPv6 reach the IPv4 host they embed:
+  // mapped ::ffff:0:0/96, NAT64 64:ff9b::/96 and 6to4 2002::/16. The rest
+  // of 64:ff9b::/32, like the local-use 64:ff9b:1::/48, is refused outright.
+  if (zeros(0, 5) && groups[5] === 0xffff) return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+  if (first === 0x64 && second === 0xff9b) {
+    return !zeros(2, 6) || isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  if (first === 0x2002) return isPrivateIPv4(embeddedIPv4(second, third));
+
+  return (first & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (first & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (first & 0xff00) === 0xff00; // multicast ff00::/8
+}
+
+async function resolveAll(hostname: string): Promise<string[]> {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  return lookups.flatMap((lookup) => (lookup.status === "fulfilled" ? lookup.value : []));
+}
+
+// Rejects URLs the edge function must never fetch on a caller's behalf:
+// other schemes, and hosts that are or resolve to internal addresses.
+//
+// The fetch that follows resolves the host again, and Deno's fetch cannot be
+// pinned to the addresses checked here, so a DNS server that answers with a
+// public address now and a private one a moment later (DNS rebinding) can
+// still get through. What limits the damage: only an HTML response is read
+// at all, so metadata and JSON endpoints are refused anyway, and its text
+// reaches the caller only through the model's dish ratings.
+export async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new RequestError("Only http and https menu URLs are supported", "unsupported_url", 400);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const isLiteral = parseIPv4(hostname) !== null || hostname.includes(":");
+  const addresses = isLiteral ? [hostname] : await resolveAll(hostname);
+
+  if (hostname === "localhost" || hostname.endsWith(".localhost") || addresses.some(isPrivateAddress)) {
+    throw new RequestError("This address points to a private network", "url_not_allowed", 400);
+  }
+  if (addresses.length === 0) {
+    throw new RequestError(`Could not resolve ${hostname}`, "menu_page_unreachable", 422);
+  }
+}
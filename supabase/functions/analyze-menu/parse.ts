@@ -0,0 +1,31 @@
+import {
+  ModelMenuAnalysisSchema,
+  type ModelMenuItem,
+  toValidationIssues,
+  type ValidationIssue,
+} from "../_shared/fodmap-schema.ts";
+import { extractJson } from "../_shared/json.ts";
+
+export type ParseResult =
+  | { success: true; items: ModelMenuItem[] }
+  | { success: false; issues: ValidationIssue[] };
+
+export function parseMenuAnalysis(aiResponse: string): ParseResult {
+  const json = extractJson(aiResponse);
+  if (!json) {
+    return { success: false, issues: [{ path: "", message: "No JSON found in response" }] };
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch (e) {
+    return { success: false, issues: [{ path: "", message: `Invalid JSON: ${(e as Error).message}` }] };
+  }
+
+  const result = ModelMenuAnalysisSchema.safeParse(parsed);
+  if (!result.success) {
+    return { success: false, issues: toValidationIssues(result.error) };
+  }
+  return { success: true, items: result.data.items };
+}
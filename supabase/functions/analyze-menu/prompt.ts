@@ -0,0 +1,33 @@
+import type { ValidationIssue } from "../_shared/fodmap-schema.ts";
+
+// Part of the analysis cache key. Bump it whenever a prompt or the item schema
+// changes, so analyses made with the old one are not served again.
+export const PROMPT_VERSION = 4;
+
+const ITEM_INSTRUCTIONS = `For each food item, identify its name, a brief description, the list of its likely ingredients (including those hidden in sauces, stocks and dressings), its overall FODMAP level (low, moderate, or high), a breakdown of the FODMAP subgroups it contains (fructans, gos, lactose, excess-fructose, sorbitol, mannitol) with the level of each subgroup and the ingredient that causes it, a list of potential FODMAP concerns (e.g., "Garlic in dressing", "Wheat pasta"), a list of potential alternatives or modifications (e.g., "Ask for dressing on side", "Replace croutons with nuts"), a confidence between 0 and 1 in your rating, the reasons for any uncertainty, questions the diner should ask the staff to settle it (e.g., "Is the dressing made with garlic?"), the heading of the menu section the dish is listed under, its price and portion size, the major allergens it contains, the diets it suits, and the bounding box of the dish (its name and description) on the image. Structure the output as a JSON object with two keys: "dishes", the names of all dishes on the menu in menu order, written first; and "items", an array with one object per dish in the same order, where each object has the following keys: "name", "description", "ingredients", "fodmapLevel", "subgroups", "concerns", "alternatives", "confidence", "confidenceReasons", "staffQuestions", "section", "price", "currency", "portion", "allergens", "suitableDiets", "region". "allergens" lists which of the 14 EU major allergens the dish likely contains, including in sauces, stocks and garnishes, using only "gluten", "crustaceans", "eggs", "fish", "peanuts", "soybeans", "milk", "tree-nuts", "celery", "mustard", "sesame", "sulphites", "lupin" and "molluscs". "suitableDiets" may only contain "vegetarian" and "vegan"; list a diet only when the dish fits it as served. "section" is the section heading exactly as written on the menu (e.g., "Starters", "Mains", "Desserts", "Drinks"), the same for every dish under that heading; use null if the menu has no section headings. "price" is the price as a number without the currency symbol (e.g., 12.5), "currency" its ISO 4217 code (e.g., "EUR", "USD"), taken from the symbol on the menu or else the restaurant's country, and "portion" the portion size as written (e.g., "250 g", "6 pieces"); when several sizes are priced, give the smallest one's price and portion, and use null for anything the menu does not show. "region" is an object with the keys "x", "y", "width" and "height", given as fractions between 0 and 1 of the image width and height, measured from the top-left corner; use null if you cannot locate the dish. "confidenceReasons" may only contain "illegible_text", "ambiguous_dish_name", "unknown_cuisine_term" and "hidden_sauces"; leave it and "staffQuestions" empty when you are confident. Each entry in "subgroups" has the keys "subgroup", "level" and "ingredient"; only list subgroups that are actually present, and make the overall level the highest subgroup level. If you cannot determine some information, use an empty string or array as appropriate. Focus on common FODMAP triggers. Example item: { "name": "Caesar Salad", "description": "Romaine lettuce, parmesan, croutons, caesar dressing", "ingredients": ["Romaine lettuce", "Parmesan", "Wheat croutons", "Garlic", "Anchovies", "Egg yolk"], "fodmapLevel": "moderate", "subgroups": [{ "subgroup": "fructans", "level": "moderate", "ingredient": "Garlic" }, { "subgroup": "fructans", "level": "moderate", "ingredient": "Wheat croutons" }], "concerns": ["Garlic in dressing", "Wheat croutons"], "alternatives": ["Ask for dressing on side", "Replace croutons with nuts"], "confidence": 0.7, "confidenceReasons": ["hidden_sauces"], "staffQuestions": ["Is the caesar dressing made in-house with garlic?"], "section": "Starters", "price": 11.5, "currency": "EUR", "portion": null, "allergens": ["gluten", "milk", "eggs", "fish", "mustard"], "suitableDiets": [], "region": { "x": 0.08, "y": 0.21, "width": 0.4, "height": 0.06 } }`;
+
+export const MENU_IMAGE_PROMPT = `Analyze this restaurant menu image. ${ITEM_INSTRUCTIONS}`;
+
+// Used when the menu's text is already known (pasted, a PDF text layer or a
+// fetched web page), so no OCR is needed. There is
+// no image to locate dishes on, hence the fixed null region.
+export const buildMenuTextPrompt = (menuText: string) =>
+  `Analyze this restaurant menu, given below as text. ${ITEM_INSTRUCTIONS} There is no image, so always use null for "region".\n\nMenu text:\n"""\n${menuText}\n"""`;
+
+export const MAX_OUTPUT_TOKENS = 8192;
+
+// Sent after a response fails schema validation, together with the model's
+// previous answer, so it can correct itself once.
+export const buildRepairPrompt = (issues: ValidationIssue[]) =>
+  `Your previous answer did not match the required format. Fix these problems and reply with only the corrected JSON object, no other text:\n${issues
+    .map((issue) => `- ${issue.path || "(root)"}: ${issue.message}`)
+    .join("\n")}`;
+
+// Sent after streaming when some dish objects failed validation; the dishes
+// that did validate have already been shown, so only these are re-asked.
+export const buildItemRepairPrompt = (invalidItems: { raw: string; issues: ValidationIssue[] }[]) =>
+  `Some dish objects in your previous answer did not match the required format. Reply with only a JSON array of the corrected dish objects, no other text.\n\n${invalidItems
+    .map(({ raw, issues }) =>
+      `${raw}\nProblems:\n${issues.map((issue) => `- ${issue.path || "(root)"}: ${issue.message}`).join("\n")}`
+    )
+    .join("\n\n")}`;
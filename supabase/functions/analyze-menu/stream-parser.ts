@@ -0,0 +1,93 @@
+export type StreamParserEvent =
+  | { type: "dishes"; raw: string; value: unknown }
+  | { type: "item"; raw: string; value: unknown };
+
+const parseOrUndefined = (raw: string): unknown => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+// Picks complete values out of a model response while it is still streaming:
+// the "dishes" array as soon as it closes, then each object of "items" as it
+// closes. Works on the same `{ "dishes": [...], "items": [...] }` shape the
+// prompt asks for, and on a bare array of items. Text before the first bracket
+// (prose, a code fence) is skipped.
+export class MenuStreamParser {
+  private buffer = "";
+  private position = 0;
+  private started = false;
+  private rootIsArray = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private expectingKey = false;
+  private currentKey: string | null = null;
+  private capture: { kind: StreamParserEvent["type"]; start: number; depth: number } | null = null;
+
+  push(chunk: string): StreamParserEvent[] {
+    this.buffer += chunk;
+    const events: StreamParserEvent[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (!this.started) {
+        if (char === "{" || char === "[") {
+          this.started = true;
+          this.rootIsArray = char === "[";
+          this.depth = 1;
+          this.expectingKey = !this.rootIsArray;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (char === "\\") this.escaped = true;
+        else if (char === '"') {
+          this.inString = false;
+          if (this.depth === 1 && this.expectingKey) {
+            this.currentKey = String(parseOrUndefined(this.buffer.slice(this.stringStart, this.position + 1)));
+            this.expectingKey = false;
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+        this.stringStart = this.position;
+      } else if (char === "{" || char === "[") {
+        this.depth++;
+        this.startCapture(char);
+      } else if (char === "}" || char === "]") {
+        this.depth--;
+        if (this.capture && this.depth === this.capture.depth) {
+          const raw = this.buffer.slice(this.capture.start, this.position + 1);
+          events.push({ type: this.capture.kind, raw, value: parseOrUndefined(raw) });
+          this.capture = null;
+        }
+      } else if (char === "," && this.depth === 1 && !this.rootIsArray) {
+        this.expectingKey = true;
+      }
+    }
+
+    return events;
+  }
+
+  private startCapture(char: string) {
+    if (this.capture) return;
+    const itemsDepth = this.rootIsArray ? 1 : 2;
+    const inItems = this.rootIsArray || this.currentKey === "items";
+
+    if (char === "[" && !this.rootIsArray && this.depth === 2 && this.currentKey === "dishes") {
+      this.capture = { kind: "dishes", start: this.position, depth: 1 };
+    } else if (char === "{" && inItems && this.depth === itemsDepth + 1) {
+      this.capture = { kind: "item", start: this.position, depth: itemsDepth };
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import {
+  type AnalysisErrorBody,
+  ChefCardSchema,
+  toValidationIssues,
+  TranslateChefCardRequestSchema,
+} from "../_shared/fodmap-schema.ts";
+import { getRequestUser } from "../_shared/auth.ts";
+import { corsHeadersFor } from "../_shared/cors.ts";
+import { extractJson } from "../_shared/json.ts";
+import { getVisionProvider } from "../_shared/providers/index.ts";
+import { consumeAnalysisQuota, getClientIp, quotaHeaders } from "../_shared/quota.ts";
+import { getAdminClient } from "../_shared/supabase-admin.ts";
+import { buildChefCardPrompt, MAX_OUTPUT_TOKENS } from "./prompt.ts";
+
+const MAX_REQUEST_BYTES = 32 * 1024;
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+// Translates a chef card into the restaurant's language. It is a model call
+// like any analysis, so it counts against the same quota.
+serve(async (req) => {
+  const corsHeaders = corsHeadersFor(req);
+  const json = (body: unknown, status: number, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json", ...headers },
+      status,
+    });
+  const error = (body: AnalysisErrorBody, status: number, headers: Record<string, string> = {}) =>
+    json(body, status, headers);
+
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return error({ error: "Use POST", code: "method_not_allowed" }, 405);
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) {
+    return error({ error: "Sign in to translate chef cards", code: "unauthorized" }, 401);
+  }
+
+  const text = await req.text();
+  if (new TextEncoder().encode(text).byteLength > MAX_REQUEST_BYTES) {
+    return error({ error: "Request body is too large", code: "payload_too_large" }, 413);
+  }
+  const request = TranslateChefCardRequestSchema.safeParse(parseJson(text));
+  if (!request.success) {
+    return error({
+      error: "Invalid chef card",
+      code: "invalid_request",
+      issues: toValidationIssues(request.error),
+    }, 400);
+  }
+
+  try {
+    const usage = await consumeAnalysisQuota(getAdminClient(), user.id, getClientIp(req));
+    const headers = quotaHeaders(usage.quota);
+    if (!usage.allowed) {
+      return error(
+        usage.reason === "daily"
+          ? { error: "Daily analysis quota used up", code: "quota_exceeded" }
+          : { error: "Too many requests, slow down", code: "rate_limited" },
+        429,
+        { ...headers, "Retry-After": String(usage.retryAfterSeconds) },
+      );
+    }
+
+    const { card, language, menuText } = request.data;
+    const aiResponse = await getVisionProvider().complete(
+      [{ role: "user", text: buildChefCardPrompt(card, language, menuText) }],
+      { maxTokens: MAX_OUTPUT_TOKENS },
+    );
+
+    // Every line must survive, in order, so the English can be shown next to it
+    const extracted = extractJson(aiResponse);
+    const translated = ChefCardSchema
+      .refine((result) => result.requests.length === card.requests.length, {
+        message: "Expected one translated line per request",
+        path: ["requests"],
+      })
+      .refine((result) => result.alternatives.length === card.alternatives.length, {
+        message: "Expected one translated line per alternative",
+        path: ["alternatives"],
+      })
+      .safeParse(extracted ? parseJson(extracted) : undefined);
+    if (!translated.success) {
+      console.error("Chef card translation did not match the card format:", aiResponse);
+      return error({
+        error: "AI response did not match the chef card format",
+        code: "invalid_model_output",
+        issues: toValidationIssues(translated.error),
+      }, 502, headers);
+    }
+
+    return json({ ...translated.data, dish: card.dish }, 200, headers);
+  } catch (e) {
+    console.error("Error translating chef card:", e);
+    return error({ error: (e as Error).message }, 500);
+  }
+});
@@ -0,0 +1,10 @@
+import type { ChefCard } from "../_shared/fodmap-schema.ts";
+import { CHEF_CARD_PROMPT_START } from "../_shared/prompts.ts";
+
+export const MAX_OUTPUT_TOKENS = 1024;
+
+export const buildChefCardPrompt = (card: ChefCard, language: string | undefined, menuText: string) =>
+  `${CHEF_CARD_PROMPT_START} for restaurant kitchen staff into ${
+    language ??
+      "the language the menu is written in, judged from the dish name and menu text below (keep English if the menu is in English)"
+  }. Keep it short, polite and unambiguous for a busy cook: translate every line, in order, with one output line per input line, and keep ingredient names precise. Keep the dish name exactly as written. Reply with only a JSON object with the same keys: "language" (the English name of the language you wrote in), "greeting", "dish", "requests", "alternatives" and "thanks".\n\nMenu text:\n"""\n${menuText}\n"""\n\nCard:\n${JSON.stringify(card, null, 2)}`;
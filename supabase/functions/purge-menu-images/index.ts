@@ -0,0 +1,68 @@
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
+import { getAdminClient } from "../_shared/supabase-admin.ts";
+
+const DEFAULT_RETENTION_DAYS = 30;
+const BATCH_SIZE = 100;
+// One nightly run deletes at most this many batches; a backlog beyond that
+// is picked up by the following runs.
+const MAX_BATCHES = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const json = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" }, status });
+
+// Deletes menu images older than MENU_IMAGE_RETENTION_DAYS. The analyses
+// that came from them stay; their pages just lose the image. Scheduled from
+// the database (see the private_menu_images migration), never called by users.
+serve(async (req) => {
+  if (req.headers.get("Authorization") !== `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`) {
+    return json({ error: "Service role required", code: "forbidden" }, 403);
+  }
+
+  const retentionDays = Number(Deno.env.get("MENU_IMAGE_RETENTION_DAYS") ?? DEFAULT_RETENTION_DAYS);
+  if (!Number.isFinite(retentionDays) || retentionDays <= 0) {
+    return json({ error: `Invalid MENU_IMAGE_RETENTION_DAYS: ${retentionDays}` }, 500);
+  }
+
+  const client = getAdminClient();
+  const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+  let deleted = 0;
+
+  try {
+    for (let batch = 0; batch < MAX_BATCHES; batch++) {
+      const { data: expired, error: listError } = await client.rpc("expired_menu_images", {
+        cutoff,
+        max_rows: BATCH_SIZE,
+      });
+      if (listError) throw listError;
+
+      const names = (expired as { name: string }[]).map(({ name }) => name);
+      if (names.length === 0) break;
+
+      const { data: removed, error: removeError } = await client.storage.from("menu-images").remove(names);
+      if (removeError) throw removeError;
+      // Images that could not be removed are listed again by the next batch,
+      // so without progress this batch would repeat forever
+      if (removed.length === 0) {
+        console.warn(`None of ${names.length} expired menu images could be removed, stopping`);
+        break;
+      }
+
+      const removedNames = removed.map(({ name }) => name);
+      const { error: updateError } = await client
+        .from("menu_pages")
+        .update({ image_path: null, image_deleted_at: new Date().toISOString() })
+        .in("image_path", removedNames);
+      if (updateError) throw updateError;
+
+      deleted += removedNames.length;
+      if (names.length < BATCH_SIZE) break;
+    }
+  } catch (error) {
+    console.error("Error purging menu images:", error);
+    return json({ error: (error as Error).message, deleted }, 500);
+  }
+
+  console.log(`Purged ${deleted} menu images older than ${retentionDays} days`);
+  return json({ deleted, retentionDays }, 200);
+});
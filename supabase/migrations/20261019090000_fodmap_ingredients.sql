@@ -0,0 +1,96 @@
+-- Curated FODMAP ingredient knowledge base. analyze-menu matches the
+-- ingredients it extracts against the newest published version and lets
+-- these rows override the model's own ratings.
+
+create table public.fodmap_kb_versions (
+  version integer primary key,
+  published_at timestamptz not null default now(),
+  notes text
+);
+
+create table public.fodmap_ingredients (
+  id bigint generated always as identity primary key,
+  kb_version integer not null references public.fodmap_kb_versions (version),
+  ingredient text not null,
+  synonyms text[] not null default '{}',
+  subgroup text not null check (
+    subgroup in ('fructans', 'gos', 'lactose', 'excess-fructose', 'sorbitol', 'mannitol')
+  ),
+  level text not null check (level in ('low', 'moderate', 'high')),
+  -- Largest serving (grams) still rated low for this subgroup, when established.
+  safe_serving_grams numeric,
+  source text not null,
+  unique (kb_version, ingredient, subgroup)
+);
+
+create index fodmap_ingredients_kb_version_idx on public.fodmap_ingredients (kb_version);
+
+create view public.fodmap_ingredients_current
+with (security_invoker = true) as
+select *
+from public.fodmap_ingredients
+where kb_version = (select max(version) from public.fodmap_kb_versions);
+
+alter table public.fodmap_kb_versions enable row level security;
+alter table public.fodmap_ingredients enable row level security;
+
+create policy "Knowledge base versions are readable by everyone"
+  on public.fodmap_kb_versions for select
+  using (true);
+
+create policy "Knowledge base ingredients are readable by everyone"
+  on public.fodmap_ingredients for select
+  using (true);
+
+insert into public.fodmap_kb_versions (version, notes)
+values (1, 'Initial set of common menu ingredients');
+
+insert into public.fodmap_ingredients
+  (kb_version, ingredient, synonyms, subgroup, level, safe_serving_grams, source)
+values
+  (1, 'garlic', '{garlic clove,garlic powder,roasted garlic,aioli}', 'fructans', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'garlic-infused oil', '{garlic oil}', 'fructans', 'low', null, 'Monash University FODMAP guidance'),
+  (1, 'onion', '{red onion,white onion,brown onion,shallot,onion powder}', 'fructans', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'spring onion greens', '{scallion greens,green onion tops}', 'fructans', 'low', 75, 'Monash University FODMAP guidance'),
+  (1, 'chives', '{}', 'fructans', 'low', 5, 'Monash University FODMAP guidance'),
+  (1, 'leek bulb', '{leek}', 'fructans', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'leek leaves', '{green leek}', 'fructans', 'low', 55, 'Monash University FODMAP guidance'),
+  (1, 'wheat', '{wheat bread,wheat pasta,croutons,baguette,flour tortilla,couscous,semolina}', 'fructans', 'moderate', 24, 'Monash University FODMAP guidance'),
+  (1, 'rye', '{rye bread}', 'fructans', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'barley', '{pearl barley}', 'fructans', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'sourdough spelt bread', '{spelt sourdough}', 'fructans', 'low', 109, 'Monash University FODMAP guidance'),
+  (1, 'artichoke', '{globe artichoke,jerusalem artichoke}', 'fructans', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'asparagus', '{}', 'excess-fructose', 'high', 12, 'Monash University FODMAP guidance'),
+  (1, 'inulin', '{chicory root,chicory root fibre}', 'fructans', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'chickpeas', '{chickpea,hummus,falafel,garbanzo beans}', 'gos', 'moderate', 42, 'Monash University FODMAP guidance'),
+  (1, 'lentils', '{lentil,dal,dhal}', 'gos', 'moderate', 46, 'Monash University FODMAP guidance'),
+  (1, 'kidney beans', '{red kidney beans,baked beans,black beans}', 'gos', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'cashews', '{cashew}', 'gos', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'pistachios', '{pistachio}', 'gos', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'milk', '{cow milk,whole milk,cream,ice cream,custard}', 'lactose', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'lactose-free milk', '{lactose free milk}', 'lactose', 'low', 250, 'Monash University FODMAP guidance'),
+  (1, 'yoghurt', '{yogurt,greek yoghurt,tzatziki,raita}', 'lactose', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'ricotta', '{cottage cheese,cream cheese,mascarpone}', 'lactose', 'moderate', 40, 'Monash University FODMAP guidance'),
+  (1, 'parmesan', '{parmigiano,cheddar,pecorino,mozzarella,feta,brie,camembert}', 'lactose', 'low', 40, 'Monash University FODMAP guidance'),
+  (1, 'honey', '{}', 'excess-fructose', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'agave', '{agave syrup,agave nectar}', 'excess-fructose', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'high fructose corn syrup', '{hfcs,corn syrup}', 'excess-fructose', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'maple syrup', '{}', 'excess-fructose', 'low', 50, 'Monash University FODMAP guidance'),
+  (1, 'apple', '{apple sauce,apple juice,cider}', 'excess-fructose', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'apple', '{apple sauce,apple juice,cider}', 'sorbitol', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'pear', '{}', 'excess-fructose', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'pear', '{}', 'sorbitol', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'mango', '{}', 'excess-fructose', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'watermelon', '{}', 'excess-fructose', 'high', 15, 'Monash University FODMAP guidance'),
+  (1, 'watermelon', '{}', 'mannitol', 'high', 15, 'Monash University FODMAP guidance'),
+  (1, 'avocado', '{guacamole}', 'sorbitol', 'moderate', 30, 'Monash University FODMAP guidance'),
+  (1, 'blackberries', '{blackberry}', 'sorbitol', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'stone fruit', '{apricot,peach,plum,nectarine,cherries}', 'sorbitol', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'mushrooms', '{mushroom,button mushrooms,portobello}', 'mannitol', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'oyster mushrooms', '{}', 'mannitol', 'low', 75, 'Monash University FODMAP guidance'),
+  (1, 'cauliflower', '{}', 'mannitol', 'high', null, 'Monash University FODMAP guidance'),
+  (1, 'celery', '{}', 'mannitol', 'moderate', 10, 'Monash University FODMAP guidance'),
+  (1, 'sweet potato', '{kumara}', 'mannitol', 'moderate', 75, 'Monash University FODMAP guidance'),
+  (1, 'rice', '{white rice,brown rice,basmati,jasmine rice,risotto rice}', 'fructans', 'low', 190, 'Monash University FODMAP guidance'),
+  (1, 'potato', '{potatoes,fries,chips,mashed potato}', 'fructans', 'low', null, 'Monash University FODMAP guidance'),
+  (1, 'lemon', '{lemon juice,lime,lime juice}', 'excess-fructose', 'low', null, 'Monash University FODMAP guidance');
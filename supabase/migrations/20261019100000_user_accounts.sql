@@ -0,0 +1,47 @@
+-- Per-user data for signed-in accounts: the FODMAP tolerance profile and
+-- menu uploads, which live under a folder named after the user's id.
+
+create table public.tolerance_profiles (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  -- Same shape as ToleranceProfile in src/lib/toleranceProfile.ts
+  profile jsonb not null,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.tolerance_profiles enable row level security;
+
+create policy "Users read their own tolerance profile"
+  on public.tolerance_profiles for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users create their own tolerance profile"
+  on public.tolerance_profiles for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users update their own tolerance profile"
+  on public.tolerance_profiles for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+insert into storage.buckets (id, name, public)
+values ('menu-images', 'menu-images', true)
+on conflict (id) do nothing;
+
+create policy "Users upload menu images to their own folder"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'menu-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+create policy "Users read menu images in their own folder"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'menu-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
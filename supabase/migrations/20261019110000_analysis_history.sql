@@ -0,0 +1,73 @@
+-- Saved analyses. analyze-menu writes these with the service role after
+-- every page it analyzes; users can only read back their own.
+
+create table public.analyses (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kb_version integer not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index analyses_user_id_created_at_idx on public.analyses (user_id, created_at desc);
+
+-- One row per analyzed page: an image, text (pasted or a PDF text layer) or
+-- a fetched web page. A PDF page analyzed from its text layer has both.
+create table public.menu_pages (
+  id bigint generated always as identity primary key,
+  analysis_id uuid not null references public.analyses (id) on delete cascade,
+  page_index integer not null check (page_index >= 0),
+  file_name text,
+  image_url text,
+  menu_text text,
+  menu_url text,
+  created_at timestamptz not null default now(),
+  unique (analysis_id, page_index)
+);
+
+create table public.analyzed_items (
+  id bigint generated always as identity primary key,
+  analysis_id uuid not null references public.analyses (id) on delete cascade,
+  menu_page_id bigint not null references public.menu_pages (id) on delete cascade,
+  position integer not null,
+  name text not null,
+  fodmap_level text not null,
+  -- The FodmapItem exactly as returned to the client
+  item jsonb not null
+);
+
+create index analyzed_items_analysis_id_idx on public.analyzed_items (analysis_id);
+create index analyzed_items_menu_page_id_idx on public.analyzed_items (menu_page_id, position);
+
+alter table public.analyses enable row level security;
+alter table public.menu_pages enable row level security;
+alter table public.analyzed_items enable row level security;
+
+create policy "Users read their own analyses"
+  on public.analyses for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users delete their own analyses"
+  on public.analyses for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users read pages of their own analyses"
+  on public.menu_pages for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.analyses
+      where analyses.id = menu_pages.analysis_id and analyses.user_id = auth.uid()
+    )
+  );
+
+create policy "Users read items of their own analyses"
+  on public.analyzed_items for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.analyses
+      where analyses.id = analyzed_items.analysis_id and analyses.user_id = auth.uid()
+    )
+  );
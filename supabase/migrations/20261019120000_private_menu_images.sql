@@ -0,0 +1,57 @@
+-- Menu photos are private: the client and the model only ever see
+-- short-lived signed URLs, and purge-menu-images deletes originals after
+-- MENU_IMAGE_RETENTION_DAYS while the extracted analysis is kept.
+
+update storage.buckets set public = false where id = 'menu-images';
+
+-- Pages now reference their image by storage path; signed URLs expire, so
+-- storing one would be useless for reopening an analysis later.
+alter table public.menu_pages
+  add column image_path text,
+  add column image_deleted_at timestamptz;
+
+update public.menu_pages
+set image_path = substring(image_url from '/object/public/menu-images/(.*)$')
+where image_url is not null;
+
+alter table public.menu_pages drop column image_url;
+
+-- Images past the retention period, including uploads whose analysis never
+-- finished and so have no menu_pages row. Service role only.
+create function public.expired_menu_images(cutoff timestamptz, max_rows integer default 100)
+returns table (name text)
+language sql
+stable
+security definer
+set search_path = ''
+as $$
+  select objects.name
+  from storage.objects
+  where objects.bucket_id = 'menu-images' and objects.created_at < cutoff
+  order by objects.created_at
+  limit max_rows;
+$$;
+
+revoke execute on function public.expired_menu_images(timestamptz, integer) from public, anon, authenticated;
+grant execute on function public.expired_menu_images(timestamptz, integer) to service_role;
+
+-- Nightly run. Expects the project URL and service role key in Vault as
+-- "project_url" and "service_role_key".
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'purge-menu-images',
+  '17 3 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url')
+      || '/functions/v1/purge-menu-images',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,6 @@
+-- Enforce the same limits as analyze-menu at upload time, so oversized or
+-- non-image files never reach the bucket in the first place.
+update storage.buckets
+set file_size_limit = 10485760,
+    allowed_mime_types = array['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+where id = 'menu-images';
@@ -0,0 +1,82 @@
+-- Every analyze-menu call that reaches the model is recorded here, once for
+-- the user ("user:<uuid>") and once for the caller's IP ("ip:<address>"), so
+-- analyze-menu can enforce daily and burst limits on both. Only the service
+-- role touches this table; users see their quota through analysis-quota.
+
+create table public.analysis_usage (
+  id bigint generated always as identity primary key,
+  subject text not null,
+  created_at timestamptz not null default now()
+);
+
+create index analysis_usage_subject_created_at_idx on public.analysis_usage (subject, created_at);
+
+alter table public.analysis_usage enable row level security;
+
+-- Checks every subject against its daily limit (per UTC day) and its burst
+-- limit (per burst window) and, only if all of them pass, records one use for
+-- each. retry_after_seconds is 0 for subjects that passed. Callers must pass
+-- subjects in a stable order so the advisory locks cannot deadlock.
+create function public.consume_analysis_quota(
+  quota_subjects text[],
+  daily_limits integer[],
+  burst_limits integer[],
+  burst_window_seconds integer
+)
+returns table (subject text, daily_used integer, daily_exceeded boolean, retry_after_seconds integer)
+language plpgsql
+security definer
+set search_path = ''
+as $$
+declare
+  day_start timestamptz := date_trunc('day', now(), 'UTC');
+  burst_start timestamptz := now() - make_interval(secs => burst_window_seconds);
+  allowed boolean := true;
+  i integer;
+  used_today integer;
+  used_in_burst integer;
+  oldest_in_burst timestamptz;
+begin
+  for i in 1 .. coalesce(array_length(quota_subjects, 1), 0) loop
+    -- Parallel page uploads must not all slip in under the same limit
+    perform pg_advisory_xact_lock(hashtext(quota_subjects[i]));
+
+    select count(*) into used_today
+    from public.analysis_usage as usage
+    where usage.subject = quota_subjects[i] and usage.created_at >= day_start;
+
+    select count(*), min(usage.created_at) into used_in_burst, oldest_in_burst
+    from public.analysis_usage as usage
+    where usage.subject = quota_subjects[i] and usage.created_at > burst_start;
+
+    subject := quota_subjects[i];
+    daily_used := used_today;
+    daily_exceeded := used_today >= daily_limits[i];
+    if daily_exceeded then
+      retry_after_seconds := ceil(extract(epoch from (day_start + interval '1 day' - now())));
+    elsif used_in_burst >= burst_limits[i] then
+      retry_after_seconds := greatest(1, ceil(extract(epoch from (
+        oldest_in_burst + make_interval(secs => burst_window_seconds) - now()
+      ))));
+    else
+      retry_after_seconds := 0;
+    end if;
+
+    allowed := allowed and retry_after_seconds = 0;
+    return next;
+  end loop;
+
+  if allowed then
+    insert into public.analysis_usage (subject)
+    select unnest(quota_subjects);
+  end if;
+
+  -- Yesterday's rows are never read again
+  delete from public.analysis_usage as usage
+  where usage.subject = any(quota_subjects)
+    and usage.created_at < least(day_start, burst_start);
+end;
+$$;
+
+revoke execute on function public.consume_analysis_quota(text[], integer[], integer[], integer) from public, anon, authenticated;
+grant execute on function public.consume_analysis_quota(text[], integer[], integer[], integer) to service_role;
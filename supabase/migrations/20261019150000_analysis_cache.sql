@@ -0,0 +1,19 @@
+-- Analyses keyed by the SHA-256 of the menu image, so a menu photo that was
+-- analyzed before (by anyone) is answered without another model call. A new
+-- prompt or knowledge base version starts a fresh key, and older rows are
+-- simply never read again. Only the service role reads or writes this table.
+
+create table public.analysis_cache (
+  content_hash text not null check (content_hash ~ '^[0-9a-f]{64}$'),
+  prompt_version integer not null,
+  kb_version integer not null,
+  items jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (content_hash, prompt_version, kb_version)
+);
+
+alter table public.analysis_cache enable row level security;
+
+-- Pages answered from the cache have no upload of their own; the hash still
+-- marks them as image pages in the history.
+alter table public.menu_pages add column content_hash text;
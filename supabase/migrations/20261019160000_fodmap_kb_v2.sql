@@ -0,0 +1,38 @@
+-- Knowledge base version 2. Version 1 matched too much: "cream" and the
+-- "milk" row itself rated coconut and plant milks as high lactose, and
+-- "cider" or "apple" rated apple cider vinegar as high fructose. The broad
+-- synonyms go, and the dairy-free products and vinegars get rows of their
+-- own, which win over "milk" and "apple" as the longer match.
+
+insert into public.fodmap_kb_versions (version, notes)
+values (2, 'Narrower milk and apple synonyms; cream, plant milks and vinegars');
+
+insert into public.fodmap_ingredients
+  (kb_version, ingredient, synonyms, subgroup, level, safe_serving_grams, source)
+select
+  2,
+  ingredient,
+  case ingredient
+    when 'milk' then '{cow milk,whole milk,ice cream,custard}'
+    when 'apple' then '{apple sauce,apple juice}'
+    else synonyms
+  end,
+  subgroup,
+  level,
+  safe_serving_grams,
+  source
+from public.fodmap_ingredients
+where kb_version = 1;
+
+insert into public.fodmap_ingredients
+  (kb_version, ingredient, synonyms, subgroup, level, safe_serving_grams, source)
+values
+  (2, 'cream', '{single cream,double cream,whipping cream,heavy cream,sour cream,creme fraiche}', 'lactose', 'low', 40, 'Monash University FODMAP guidance'),
+  (2, 'coconut milk', '{canned coconut milk}', 'sorbitol', 'low', 60, 'Monash University FODMAP guidance'),
+  (2, 'coconut cream', '{}', 'sorbitol', 'low', 60, 'Monash University FODMAP guidance'),
+  (2, 'almond milk', '{}', 'gos', 'low', 250, 'Monash University FODMAP guidance'),
+  (2, 'oat milk', '{}', 'fructans', 'low', 104, 'Monash University FODMAP guidance'),
+  (2, 'rice milk', '{}', 'fructans', 'low', 200, 'Monash University FODMAP guidance'),
+  (2, 'apple cider vinegar', '{cider vinegar}', 'excess-fructose', 'low', 42, 'Monash University FODMAP guidance'),
+  (2, 'balsamic vinegar', '{balsamic}', 'excess-fructose', 'low', 21, 'Monash University FODMAP guidance'),
+  (2, 'vinegar', '{white vinegar,white wine vinegar,red wine vinegar,rice vinegar,malt vinegar,sherry vinegar}', 'excess-fructose', 'low', 42, 'Monash University FODMAP guidance');
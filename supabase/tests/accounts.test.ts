@@ -0,0 +1,180 @@
+import assert from "node:assert/strict";
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// Runs against a local stack (`supabase start`); point these at the values
+// `supabase status` prints. Without them the tests are skipped. Separate
+// names from the edge-function variables, which the unit tests set to fakes.
+const SUPABASE_URL = Deno.env.get("SUPABASE_TEST_URL");
+const ANON_KEY = Deno.env.get("SUPABASE_TEST_ANON_KEY");
+const SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_TEST_SERVICE_ROLE_KEY");
+// Inbucket (or Mailpit in newer CLI versions) catches the stack's email
+const MAIL_URL = Deno.env.get("SUPABASE_TEST_MAIL_URL") ?? "http://localhost:54324";
+const ignore = !SUPABASE_URL || !ANON_KEY || !SERVICE_ROLE_KEY;
+
+const BUCKET = "menu-images";
+// A 1×1 transparent GIF; the bucket only accepts images
+const PIXEL = Uint8Array.from(atob("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7"), (c) => c.charCodeAt(0));
+
+const newClient = () => createClient(SUPABASE_URL!, ANON_KEY!, { auth: { persistSession: false } });
+const admin = () => createClient(SUPABASE_URL!, SERVICE_ROLE_KEY!, { auth: { persistSession: false } });
+const testEmail = (label: string) => `${label}-${crypto.randomUUID()}@example.com`;
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface TestUser {
+  id: string;
+  client: SupabaseClient;
+}
+
+// Accounts for the RLS tests are made with a password, so they do not use
+// up the stack's hourly email limit that the OTP test needs.
+async function createSignedInUser(label: string): Promise<TestUser> {
+  const email = testEmail(label);
+  const password = crypto.randomUUID();
+  const { error: createError } = await admin().auth.admin.createUser({ email, password, email_confirm: true });
+  if (createError) throw createError;
+
+  const client = newClient();
+  const { data, error } = await client.auth.signInWithPassword({ email, password });
+  if (error) throw error;
+  return { id: data.user.id, client };
+}
+
+async function deleteUser(user: TestUser) {
+  const client = admin();
+  const { data } = await client.storage.from(BUCKET).list(user.id);
+  if (data?.length) await client.storage.from(BUCKET).remove(data.map((file) => `${user.id}/${file.name}`));
+  await client.auth.admin.deleteUser(user.id);
+}
+
+async function fetchJson(url: string): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    await response.body?.cancel();
+    return null;
+  }
+  return response.json();
+}
+
+// The newest message body sent to the address, from Mailpit's or Inbucket's API
+async function readLatestEmail(email: string): Promise<string | null> {
+  const mailpit = await fetchJson(`${MAIL_URL}/api/v1/search?query=${encodeURIComponent(`to:"${email}"`)}`) as
+    | { messages?: { ID: string }[] }
+    | null;
+  if (mailpit?.messages?.length) {
+    const message = await fetchJson(`${MAIL_URL}/api/v1/message/${mailpit.messages[0].ID}`) as {
+      Text?: string;
+      HTML?: string;
+    };
+    return message.Text || message.HTML || null;
+  }
+
+  const mailbox = email.split("@")[0];
+  const inbucket = await fetchJson(`${MAIL_URL}/api/v1/mailbox/${mailbox}`) as { id: string }[] | null;
+  if (inbucket?.length) {
+    const message = await fetchJson(`${MAIL_URL}/api/v1/mailbox/${mailbox}/${inbucket.at(-1)!.id}`) as {
+      body: { text?: string; html?: string };
+    };
+    return message.body.text || message.body.html || null;
+  }
+  return null;
+}
+
+async function readSignInCode(email: string): Promise<string> {
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const code = (await readLatestEmail(email))?.match(/\b(\d{6})\b/)?.[1];
+    if (code) return code;
+    await sleep(250);
+  }
+  throw new Error(`No sign-in code arrived for ${email}`);
+}
+
+Deno.test({
+  name: "signing in with an emailed code creates a session for a new account",
+  ignore,
+  async fn() {
+    const email = testEmail("otp");
+    const client = newClient();
+
+    const { error: sendError } = await client.auth.signInWithOtp({ email, options: { shouldCreateUser: true } });
+    assert.equal(sendError, null);
+
+    const { error: wrongCodeError } = await client.auth.verifyOtp({ email, token: "000000", type: "email" });
+    assert.ok(wrongCodeError, "a wrong code must not sign in");
+
+    const { data, error } = await client.auth.verifyOtp({ email, token: await readSignInCode(email), type: "email" });
+    assert.equal(error, null);
+    assert.equal(data.user?.email, email);
+    assert.ok(data.session?.access_token);
+
+    await deleteUser({ id: data.user!.id, client });
+  },
+});
+
+Deno.test({
+  name: "users cannot read, change or create each other's tolerance profiles",
+  ignore,
+  async fn() {
+    const [alice, bob] = [await createSignedInUser("alice"), await createSignedInUser("bob")];
+    try {
+      const profile = { fructans: { tolerance: "avoided", notes: "" }, diets: ["vegan"] };
+      const { error: saveError } = await alice.client.from("tolerance_profiles").upsert({ user_id: alice.id, profile });
+      assert.equal(saveError, null);
+
+      const { data: ownRows } = await alice.client.from("tolerance_profiles").select("profile").eq("user_id", alice.id);
+      assert.deepEqual(ownRows, [{ profile }]);
+
+      const { data: otherRows, error: readError } = await bob.client.from("tolerance_profiles").select("*");
+      assert.equal(readError, null);
+      assert.deepEqual(otherRows, []);
+
+      // An update RLS hides the row from matches nothing rather than failing
+      const { data: updated } = await bob.client
+        .from("tolerance_profiles")
+        .update({ profile: { diets: [] } })
+        .eq("user_id", alice.id)
+        .select();
+      assert.deepEqual(updated, []);
+
+      const { error: insertError } = await bob.client
+        .from("tolerance_profiles")
+        .insert({ user_id: alice.id, profile: { diets: [] } });
+      assert.ok(insertError, "inserting a row for another user must fail");
+
+      const { data: afterRows } = await alice.client.from("tolerance_profiles").select("profile").eq("user_id", alice.id);
+      assert.deepEqual(afterRows, [{ profile }]);
+    } finally {
+      await Promise.all([deleteUser(alice), deleteUser(bob)]);
+    }
+  },
+});
+
+Deno.test({
+  name: "users cannot read or write menu images in each other's folders",
+  ignore,
+  async fn() {
+    const [alice, bob] = [await createSignedInUser("alice"), await createSignedInUser("bob")];
+    try {
+      const path = `${alice.id}/menu.gif`;
+      const upload = (client: SupabaseClient, name: string) =>
+        client.storage.from(BUCKET).upload(name, PIXEL, { contentType: "image/gif" });
+
+      assert.equal((await upload(alice.client, path)).error, null);
+      assert.equal((await alice.client.storage.from(BUCKET).download(path)).error, null);
+
+      const { data: downloaded, error: downloadError } = await bob.client.storage.from(BUCKET).download(path);
+      assert.equal(downloaded, null);
+      assert.ok(downloadError, "downloading another user's image must fail");
+
+      const { data: listed } = await bob.client.storage.from(BUCKET).list(alice.id);
+      assert.deepEqual(listed ?? [], []);
+
+      const { error: signError } = await bob.client.storage.from(BUCKET).createSignedUrl(path, 60);
+      assert.ok(signError, "signing a URL for another user's image must fail");
+
+      assert.ok((await upload(bob.client, `${alice.id}/planted.gif`)).error, "uploading into another user's folder must fail");
+      assert.equal((await upload(bob.client, `${bob.id}/menu.gif`)).error, null);
+    } finally {
+      await Promise.all([deleteUser(alice), deleteUser(bob)]);
+    }
+  },
+});
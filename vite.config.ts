@@ -7,8 +7,13 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      '@shared': path.resolve(__dirname, './supabase/functions/_shared'),
     },
   },
+  // The image worker lazy-loads the HEIC decoder, which needs code splitting
+  worker: {
+    format: 'es',
+  },
   server: {
     port: 3000,
     strictPort: true,